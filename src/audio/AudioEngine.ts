@@ -1,15 +1,25 @@
 import * as Tone from 'tone'
+import { Metronome } from './Metronome'
+import { MasterBus } from './MasterBus'
+import { AuxBusRack } from './effects/AuxBuses'
 
 class AudioEngine {
   private static instance: AudioEngine
   private initialized = false
   public masterGain: Tone.Gain
-  public recorder: Tone.Recorder
+  public masterBus: MasterBus
+  public auxBuses: AuxBusRack
+  public metronome: Metronome
 
   private constructor() {
-    this.masterGain = new Tone.Gain(0.8).toDestination()
-    this.recorder = new Tone.Recorder()
-    this.masterGain.connect(this.recorder)
+    // Everything is summed into masterGain, then processed by the master bus
+    this.masterBus = new MasterBus()
+    this.masterBus.output.toDestination()
+    this.masterGain = new Tone.Gain(0.8).connect(this.masterBus.input)
+    // Shared send effects return into the mix like any layer channel
+    this.auxBuses = new AuxBusRack(this.masterGain)
+    // Bypasses the master gain so the click level is independent of the mix
+    this.metronome = new Metronome(Tone.getDestination())
   }
 
   static getInstance(): AudioEngine {
@@ -80,25 +90,6 @@ class AudioEngine {
     Tone.getTransport().position = position
   }
 
-  async startRecording(): Promise<void> {
-    // If recorder is in a bad state, recreate it
-    if (this.recorder.state !== 'stopped') {
-      this.recorder.dispose()
-      this.recorder = new Tone.Recorder()
-      this.masterGain.connect(this.recorder)
-      // Wait for connection to be established
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
-    await this.recorder.start()
-  }
-
-  async stopRecording(): Promise<Blob> {
-    if (this.recorder.state === 'started') {
-      return await this.recorder.stop()
-    }
-    return new Blob([], { type: 'audio/wav' })
-  }
-
   scheduleRepeat(
     callback: (time: number) => void,
     interval: string | number,
@@ -111,6 +102,15 @@ class AudioEngine {
     Tone.getTransport().clear(eventId)
   }
 
+  // Wall-clock timeout on the audio context, independent of transport looping
+  setTimeout(callback: () => void, seconds: number): number {
+    return Tone.getContext().setTimeout(callback, seconds)
+  }
+
+  clearTimeout(timeoutId: number): void {
+    Tone.getContext().clearTimeout(timeoutId)
+  }
+
   getMeasureTicks(): number {
     return Tone.Time('1m').toTicks()
   }
@@ -0,0 +1,94 @@
+import * as Tone from 'tone'
+import type { MasterSettings } from '@/types'
+
+export const DEFAULT_MASTER_SETTINGS: MasterSettings = {
+  eq: { low: 0, mid: 0, high: 0 },
+  compressor: { enabled: false, threshold: -18, ratio: 2, attack: 0.03, release: 0.25, makeup: 0 },
+  limiter: { enabled: true, ceiling: -0.3 },
+}
+
+export function cloneMasterSettings(settings: MasterSettings = DEFAULT_MASTER_SETTINGS): MasterSettings {
+  return {
+    eq: { ...DEFAULT_MASTER_SETTINGS.eq, ...settings.eq },
+    compressor: { ...DEFAULT_MASTER_SETTINGS.compressor, ...settings.compressor },
+    limiter: { ...DEFAULT_MASTER_SETTINGS.limiter, ...settings.limiter },
+  }
+}
+
+// Hard clip at the ceiling; anything the limiter lets through is flattened here
+function ceilingCurve(ceilingDb: number): Float32Array<ArrayBuffer> {
+  const ceiling = Tone.dbToGain(ceilingDb)
+  const curve = new Float32Array(1025)
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1
+    curve[i] = Math.max(-ceiling, Math.min(ceiling, x))
+  }
+  return curve
+}
+
+/**
+ * EQ -> compressor -> limiter between `input` and `output`. Disabled stages
+ * are taken out of the signal path rather than set to neutral values.
+ */
+export class MasterBus {
+  public readonly input = new Tone.Gain()
+  public readonly output = new Tone.Gain()
+  private eq = new Tone.EQ3()
+  private compressor = new Tone.Compressor()
+  private makeup = new Tone.Gain()
+  private limiter = new Tone.Limiter()
+  private clipper = new Tone.WaveShaper()
+  private settings: MasterSettings = cloneMasterSettings()
+  private routing = ''
+
+  constructor(settings: MasterSettings = DEFAULT_MASTER_SETTINGS) {
+    // The limiter's lookahead-free attack lets transients through; the clipper catches them
+    this.clipper.oversample = '4x'
+    this.apply(settings)
+  }
+
+  apply(settings: MasterSettings): void {
+    this.settings = cloneMasterSettings(settings)
+    const { eq, compressor, limiter } = this.settings
+
+    this.eq.low.value = eq.low
+    this.eq.mid.value = eq.mid
+    this.eq.high.value = eq.high
+
+    this.compressor.threshold.value = compressor.threshold
+    this.compressor.ratio.value = compressor.ratio
+    this.compressor.attack.value = compressor.attack
+    this.compressor.release.value = compressor.release
+    this.makeup.gain.value = Tone.dbToGain(compressor.makeup)
+
+    this.limiter.threshold.value = limiter.ceiling
+    this.clipper.curve = ceilingCurve(limiter.ceiling)
+
+    const routing = `${compressor.enabled}:${limiter.enabled}`
+    if (routing === this.routing) return
+    this.routing = routing
+
+    const stages: Tone.ToneAudioNode[] = [this.eq]
+    if (compressor.enabled) stages.push(this.compressor, this.makeup)
+    if (limiter.enabled) stages.push(this.limiter, this.clipper)
+
+    this.input.disconnect()
+    stages.forEach((stage) => stage.disconnect())
+    this.input.chain(...stages, this.output)
+  }
+
+  getSettings(): MasterSettings {
+    return cloneMasterSettings(this.settings)
+  }
+
+  // Current gain reduction of the compressor and limiter in dB (0 or below)
+  getReduction(): number {
+    const { compressor, limiter } = this.settings
+    return (compressor.enabled ? this.compressor.reduction : 0) + (limiter.enabled ? this.limiter.reduction : 0)
+  }
+
+  dispose(): void {
+    const nodes = [this.input, this.eq, this.compressor, this.makeup, this.limiter, this.clipper, this.output]
+    nodes.forEach((node) => node.dispose())
+  }
+}
@@ -0,0 +1,65 @@
+import * as Tone from 'tone'
+
+// Downbeat and off-beat click pitches
+const ACCENT_NOTE = 'C6'
+const BEAT_NOTE = 'G5'
+const BEATS_PER_BAR = 4
+
+export class Metronome {
+  private transport: ReturnType<typeof Tone.getTransport>
+  private synth: Tone.Synth
+  private output: Tone.Volume
+  private eventId: number
+  private enabled = false
+  private countingIn = false
+
+  /**
+   * Clicks on every quarter note of the active context's transport.
+   * Silent until enabled or counting in.
+   */
+  constructor(destination: Tone.InputNode, volume: number = -6) {
+    this.transport = Tone.getTransport()
+    this.output = new Tone.Volume(volume).connect(destination)
+    this.synth = new Tone.Synth({
+      oscillator: { type: 'square' },
+      envelope: { attack: 0.001, decay: 0.05, sustain: 0, release: 0.02 },
+    }).connect(this.output)
+
+    this.eventId = this.transport.scheduleRepeat((time) => this.tick(time), '4n', 0)
+  }
+
+  private tick(time: number): void {
+    if (!this.enabled && !this.countingIn) return
+
+    const beat = Math.round(this.transport.getTicksAtTime(time) / this.transport.PPQ) % BEATS_PER_BAR
+    const isDownbeat = beat === 0
+    this.synth.triggerAttackRelease(isDownbeat ? ACCENT_NOTE : BEAT_NOTE, 0.03, time, isDownbeat ? 1 : 0.6)
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  // The count-in always clicks, even when the metronome is switched off
+  setCountingIn(countingIn: boolean): void {
+    this.countingIn = countingIn
+  }
+
+  setVolume(db: number): void {
+    this.output.volume.value = db
+  }
+
+  getVolume(): number {
+    return this.output.volume.value
+  }
+
+  dispose(): void {
+    this.transport.clear(this.eventId)
+    this.synth.dispose()
+    this.output.dispose()
+  }
+}
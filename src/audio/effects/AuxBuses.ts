@@ -0,0 +1,101 @@
+import * as Tone from 'tone'
+import type { AuxBusSettings, EffectType, LayerEffect } from '@/types'
+import { EffectChain, defaultEffectParams } from './EffectChain'
+
+// Bus effects have no mix control; the send level sets how much is processed
+export function defaultAuxBusParams(type: EffectType): Record<string, number> {
+  const params = defaultEffectParams(type)
+  delete params.wet
+  return params
+}
+
+export const DEFAULT_AUX_BUSES: AuxBusSettings[] = [
+  { id: 'bus-a', name: 'Reverb', effect: 'reverb', params: defaultAuxBusParams('reverb'), returnLevel: 0 },
+  { id: 'bus-b', name: 'Delay', effect: 'delay', params: defaultAuxBusParams('delay'), returnLevel: 0 },
+]
+
+// Fills in anything missing from older sessions, keeping the default bus set
+export function cloneAuxBusSettings(settings: AuxBusSettings[] = DEFAULT_AUX_BUSES): AuxBusSettings[] {
+  return DEFAULT_AUX_BUSES.map((fallback) => {
+    const bus = settings.find((b) => b.id === fallback.id) ?? fallback
+    return { ...bus, params: { ...defaultAuxBusParams(bus.effect), ...bus.params } }
+  })
+}
+
+class AuxBus {
+  public readonly input = new Tone.Gain()
+  public readonly output: Tone.Gain
+  private chain = new EffectChain()
+
+  constructor(destination: Tone.InputNode) {
+    this.output = new Tone.Gain().connect(destination)
+    this.input.connect(this.chain.input)
+    this.chain.output.connect(this.output)
+  }
+
+  apply(settings: AuxBusSettings): void {
+    // A return carries only the effect, so it always runs fully wet
+    const effect: LayerEffect = {
+      id: settings.id,
+      type: settings.effect,
+      bypassed: false,
+      params: { ...settings.params, wet: 1 },
+    }
+    this.chain.setEffects([effect])
+    this.output.gain.rampTo(Tone.dbToGain(settings.returnLevel), 0.02)
+  }
+
+  ready(): Promise<void> {
+    return this.chain.ready()
+  }
+
+  dispose(): void {
+    this.input.dispose()
+    this.chain.dispose()
+    this.output.dispose()
+  }
+}
+
+/**
+ * The set of aux buses layers can send to. Each bus returns into `destination`
+ * alongside the layer channels.
+ */
+export class AuxBusRack {
+  private buses: Map<string, AuxBus> = new Map()
+  private settings: AuxBusSettings[] = []
+  private destination: Tone.InputNode
+
+  constructor(destination: Tone.InputNode, settings: AuxBusSettings[] = DEFAULT_AUX_BUSES) {
+    this.destination = destination
+    this.apply(settings)
+  }
+
+  apply(settings: AuxBusSettings[]): void {
+    this.settings = cloneAuxBusSettings(settings)
+    for (const busSettings of this.settings) {
+      let bus = this.buses.get(busSettings.id)
+      if (!bus) {
+        bus = new AuxBus(this.destination)
+        this.buses.set(busSettings.id, bus)
+      }
+      bus.apply(busSettings)
+    }
+  }
+
+  getSettings(): AuxBusSettings[] {
+    return cloneAuxBusSettings(this.settings)
+  }
+
+  getInput(busId: string): Tone.InputNode | undefined {
+    return this.buses.get(busId)?.input
+  }
+
+  async ready(): Promise<void> {
+    await Promise.all(Array.from(this.buses.values()).map((bus) => bus.ready()))
+  }
+
+  dispose(): void {
+    this.buses.forEach((bus) => bus.dispose())
+    this.buses.clear()
+  }
+}
@@ -0,0 +1,231 @@
+import * as Tone from 'tone'
+import type { EffectType, LayerEffect } from '@/types'
+
+export interface EffectParamSpec {
+  key: string
+  label: string
+  min: number
+  max: number
+  step: number
+  default: number
+  unit?: string
+  applyOnRelease?: boolean // expensive to change, so sliders apply it when let go
+  automate?: (node: Tone.ToneAudioNode) => AutomatableParam // only for params backed by an audio param
+}
+
+// The subset of Tone.Param that automation lanes drive
+export interface AutomatableParam {
+  setValueAtTime(value: number, time: number): unknown
+  linearRampToValueAtTime(value: number, time: number): unknown
+  cancelScheduledValues(time: number): unknown
+}
+
+interface EffectDefinition {
+  label: string
+  params: EffectParamSpec[]
+  create: (params: Record<string, number>) => Tone.ToneAudioNode
+  update: (node: Tone.ToneAudioNode, params: Record<string, number>, previous: Record<string, number>) => void
+}
+
+const WET: EffectParamSpec = {
+  key: 'wet',
+  label: 'Mix',
+  min: 0,
+  max: 1,
+  step: 0.01,
+  default: 0.35,
+  automate: (node) => (node as Tone.ToneAudioNode & { wet: Tone.Signal<'normalRange'> }).wet,
+}
+
+export const EFFECT_DEFINITIONS: Record<EffectType, EffectDefinition> = {
+  reverb: {
+    label: 'Reverb',
+    params: [
+      { key: 'decay', label: 'Decay', min: 0.2, max: 10, step: 0.1, default: 2.5, unit: 's', applyOnRelease: true },
+      { key: 'preDelay', label: 'Pre-delay', min: 0, max: 0.1, step: 0.005, default: 0.01, unit: 's', applyOnRelease: true },
+      WET,
+    ],
+    create: (p) => new Tone.Reverb({ decay: p.decay, preDelay: p.preDelay, wet: p.wet }),
+    update: (node, p, prev) => {
+      const reverb = node as Tone.Reverb
+      // Each change regenerates the impulse response, so only touch what moved
+      if (p.decay !== prev.decay) reverb.decay = p.decay!
+      if (p.preDelay !== prev.preDelay) reverb.preDelay = p.preDelay!
+      reverb.wet.value = p.wet!
+    },
+  },
+  delay: {
+    label: 'Delay',
+    params: [
+      { key: 'delayTime', label: 'Time', min: 0.01, max: 1, step: 0.01, default: 0.25, unit: 's', automate: (node) => (node as Tone.FeedbackDelay).delayTime },
+      { key: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, default: 0.35, automate: (node) => (node as Tone.FeedbackDelay).feedback },
+      { ...WET, default: 0.3 },
+    ],
+    create: (p) => new Tone.FeedbackDelay({ delayTime: p.delayTime, feedback: p.feedback, wet: p.wet }),
+    update: (node, p) => {
+      const delay = node as Tone.FeedbackDelay
+      delay.delayTime.value = p.delayTime!
+      delay.feedback.value = p.feedback!
+      delay.wet.value = p.wet!
+    },
+  },
+  filter: {
+    label: 'Filter',
+    params: [
+      { key: 'cutoff', label: 'Cutoff', min: 40, max: 18000, step: 10, default: 2000, unit: 'Hz', automate: (node) => (node as Tone.Filter).frequency },
+      { key: 'resonance', label: 'Resonance', min: 0.1, max: 20, step: 0.1, default: 1, automate: (node) => (node as Tone.Filter).Q },
+    ],
+    create: (p) => new Tone.Filter({ type: 'lowpass', frequency: p.cutoff, Q: p.resonance }),
+    update: (node, p) => {
+      const filter = node as Tone.Filter
+      filter.frequency.value = p.cutoff!
+      filter.Q.value = p.resonance!
+    },
+  },
+  distortion: {
+    label: 'Distortion',
+    params: [
+      { key: 'amount', label: 'Drive', min: 0, max: 1, step: 0.01, default: 0.4 },
+      { ...WET, default: 1 },
+    ],
+    create: (p) => new Tone.Distortion({ distortion: p.amount, wet: p.wet }),
+    update: (node, p) => {
+      const distortion = node as Tone.Distortion
+      distortion.distortion = p.amount!
+      distortion.wet.value = p.wet!
+    },
+  },
+  bitcrusher: {
+    label: 'Bitcrusher',
+    params: [
+      { key: 'bits', label: 'Bits', min: 1, max: 16, step: 1, default: 4, automate: (node) => (node as Tone.BitCrusher).bits },
+      { ...WET, default: 1 },
+    ],
+    create: (p) => {
+      const crusher = new Tone.BitCrusher({ bits: p.bits })
+      crusher.wet.value = p.wet!
+      return crusher
+    },
+    update: (node, p) => {
+      const crusher = node as Tone.BitCrusher
+      crusher.bits.value = p.bits!
+      crusher.wet.value = p.wet!
+    },
+  },
+  chorus: {
+    label: 'Chorus',
+    params: [
+      { key: 'frequency', label: 'Rate', min: 0.1, max: 10, step: 0.1, default: 1.5, unit: 'Hz', automate: (node) => (node as Tone.Chorus).frequency },
+      { key: 'delayTime', label: 'Delay', min: 2, max: 20, step: 0.5, default: 3.5, unit: 'ms' },
+      { key: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, default: 0.7 },
+      { ...WET, default: 0.5 },
+    ],
+    // The LFOs only move once started
+    create: (p) =>
+      new Tone.Chorus({ frequency: p.frequency, delayTime: p.delayTime, depth: p.depth, wet: p.wet }).start(),
+    update: (node, p) => {
+      const chorus = node as Tone.Chorus
+      chorus.frequency.value = p.frequency!
+      chorus.delayTime = p.delayTime!
+      chorus.depth = p.depth!
+      chorus.wet.value = p.wet!
+    },
+  },
+}
+
+export function defaultEffectParams(type: EffectType): Record<string, number> {
+  return Object.fromEntries(EFFECT_DEFINITIONS[type].params.map((spec) => [spec.key, spec.default]))
+}
+
+interface ChainNode {
+  type: EffectType
+  node: Tone.ToneAudioNode
+  params: Record<string, number>
+}
+
+/**
+ * An ordered insert chain between `input` and `output`. Bypassed effects are
+ * left out of the signal path; their nodes are kept so toggling is instant.
+ */
+export class EffectChain {
+  public readonly input = new Tone.Gain()
+  public readonly output = new Tone.Gain()
+  private nodes: Map<string, ChainNode> = new Map()
+  private routing = ''
+
+  constructor() {
+    this.input.connect(this.output)
+  }
+
+  setEffects(effects: LayerEffect[]): void {
+    // Drop nodes whose effect was removed
+    const ids = new Set(effects.map((effect) => effect.id))
+    for (const [id, entry] of this.nodes) {
+      if (!ids.has(id)) {
+        entry.node.dispose()
+        this.nodes.delete(id)
+      }
+    }
+
+    const active: Tone.ToneAudioNode[] = []
+    for (const effect of effects) {
+      const definition = EFFECT_DEFINITIONS[effect.type]
+      const params = { ...defaultEffectParams(effect.type), ...effect.params }
+      let entry = this.nodes.get(effect.id)
+      if (!entry || entry.type !== effect.type) {
+        entry?.node.dispose()
+        entry = { type: effect.type, node: definition.create(params), params }
+        this.nodes.set(effect.id, entry)
+      } else {
+        definition.update(entry.node, params, entry.params)
+        entry.params = params
+      }
+      if (!effect.bypassed) active.push(entry.node)
+    }
+
+    // Only rewire when the order or bypass state changed
+    const routing = effects
+      .filter((effect) => !effect.bypassed)
+      .map((effect) => `${effect.id}:${effect.type}`)
+      .join(',')
+    if (routing === this.routing) return
+    this.routing = routing
+
+    this.input.disconnect()
+    this.nodes.forEach((entry) => entry.node.disconnect())
+    if (active.length === 0) {
+      this.input.connect(this.output)
+    } else {
+      this.input.chain(...active, this.output)
+    }
+  }
+
+  // The live audio param behind an effect parameter, if it can be automated
+  getParam(effectId: string, key: string): AutomatableParam | undefined {
+    const entry = this.nodes.get(effectId)
+    if (!entry) return undefined
+    const spec = EFFECT_DEFINITIONS[entry.type].params.find((p) => p.key === key)
+    return spec?.automate?.(entry.node)
+  }
+
+  // Puts every parameter back to its stored value, cancelling any automation
+  restoreParams(): void {
+    this.nodes.forEach((entry) => EFFECT_DEFINITIONS[entry.type].update(entry.node, entry.params, entry.params))
+  }
+
+  // Resolves once every reverb has generated its impulse response
+  async ready(): Promise<void> {
+    const pending: Promise<void>[] = []
+    this.nodes.forEach((entry) => {
+      if (entry.node instanceof Tone.Reverb) pending.push(entry.node.ready)
+    })
+    await Promise.all(pending)
+  }
+
+  dispose(): void {
+    this.nodes.forEach((entry) => entry.node.dispose())
+    this.nodes.clear()
+    this.input.dispose()
+    this.output.dispose()
+  }
+}
@@ -0,0 +1,108 @@
+export type Mp3Bitrate = 128 | 160 | 192 | 256 | 320
+
+export interface Mp3Options {
+  format: 'mp3'
+  mode: 'cbr' | 'vbr'
+  bitrate: Mp3Bitrate // used in CBR mode
+  vbrQuality: number // 0 (best) - 9 (smallest), used in VBR mode
+}
+
+export interface OpusOptions {
+  format: 'opus'
+  bitrate: number // bits per second
+}
+
+export type CompressedFormatOptions = Mp3Options | OpusOptions
+
+export interface EncoderRequest {
+  id: number
+  channels: Float32Array[]
+  sampleRate: number
+  options: CompressedFormatOptions
+}
+
+export type EncoderResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; data: Uint8Array }
+  | { id: number; type: 'error'; message: string }
+
+interface PendingJob {
+  resolve: (blob: Blob) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: number) => void
+  mimeType: string
+}
+
+const MIME_TYPES: Record<CompressedFormatOptions['format'], string> = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg; codecs=opus',
+}
+
+export class CompressedEncoder {
+  private worker: Worker | null = null
+  private jobs: Map<number, PendingJob> = new Map()
+  private nextJobId = 0
+
+  /**
+   * Encode a rendered buffer off the main thread
+   */
+  encode(
+    buffer: AudioBuffer,
+    options: CompressedFormatOptions,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    const worker = this.getWorker()
+    const id = ++this.nextJobId
+
+    // Copy channel data so the buffers can be transferred without detaching the AudioBuffer
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+      buffer.getChannelData(c).slice()
+    )
+
+    return new Promise((resolve, reject) => {
+      this.jobs.set(id, { resolve, reject, onProgress, mimeType: MIME_TYPES[options.format] })
+
+      const request: EncoderRequest = { id, channels, sampleRate: buffer.sampleRate, options }
+      worker.postMessage(request, channels.map((data) => data.buffer))
+    })
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./encoder.worker.ts', import.meta.url), { type: 'module' })
+      this.worker.onmessage = (e: MessageEvent<EncoderResponse>) => this.handleMessage(e.data)
+      this.worker.onerror = (e) => this.failAll(new Error(e.message || 'Encoder worker failed'))
+    }
+    return this.worker
+  }
+
+  private handleMessage(message: EncoderResponse): void {
+    const job = this.jobs.get(message.id)
+    if (!job) return
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.progress)
+        break
+      case 'done':
+        this.jobs.delete(message.id)
+        job.resolve(new Blob([message.data as Uint8Array<ArrayBuffer>], { type: job.mimeType }))
+        break
+      case 'error':
+        this.jobs.delete(message.id)
+        job.reject(new Error(message.message))
+        break
+    }
+  }
+
+  private failAll(error: Error): void {
+    this.jobs.forEach((job) => job.reject(error))
+    this.jobs.clear()
+    // Start fresh on the next request
+    this.worker?.terminate()
+    this.worker = null
+  }
+}
+
+export const compressedEncoder = new CompressedEncoder()
+export default compressedEncoder
@@ -0,0 +1,110 @@
+import * as Tone from 'tone'
+import type { LoopLayer, PlaybackWindow } from '@/types'
+import audioEngine from '../AudioEngine'
+import { MasterBus } from '../MasterBus'
+import { AuxBusRack } from '../effects/AuxBuses'
+import { InstrumentFactory } from '../instruments/InstrumentFactory'
+import { LoopPlayer } from '../looper/LoopPlayer'
+import { Metronome } from '../Metronome'
+
+export interface OfflineRenderOptions {
+  layers: LoopLayer[]
+  bpm: number
+  durationTicks: number
+  sampleRate?: number
+  channels?: number
+  includeMetronome?: boolean // add the click at its live volume
+  arrangement?: Map<string, PlaybackWindow[]> // play layers only inside these windows
+  onProgress?: (progress: number) => void // 0-1
+}
+
+export class OfflineRenderer {
+  /**
+   * Render layers faster than realtime using the same scheduling as live playback.
+   * Output starts exactly at tick 0 and is exactly durationTicks long.
+   */
+  async render(options: OfflineRenderOptions): Promise<AudioBuffer> {
+    const {
+      layers,
+      bpm,
+      durationTicks,
+      sampleRate = Tone.getContext().sampleRate,
+      channels = 2,
+      includeMetronome = false,
+      arrangement,
+      onProgress,
+    } = options
+
+    const durationSeconds = this.ticksToSeconds(durationTicks, bpm)
+    if (durationSeconds <= 0) {
+      throw new Error('Nothing to render: timeline is empty')
+    }
+
+    const originalContext = Tone.getContext()
+    const context = new Tone.OfflineContext(channels, durationSeconds, sampleRate)
+    let instruments: InstrumentFactory | null = null
+    let player: LoopPlayer | null = null
+    let metronome: Metronome | null = null
+    let masterBus: MasterBus | null = null
+    let auxBuses: AuxBusRack | null = null
+
+    // Everything created while the offline context is active belongs to it
+    Tone.setContext(context)
+    try {
+      const transport = context.transport
+      transport.bpm.value = bpm
+
+      // Same master processing as live playback
+      masterBus = new MasterBus(audioEngine.masterBus.getSettings())
+      masterBus.output.toDestination()
+      const master = new Tone.Gain(audioEngine.masterGain.gain.value).connect(masterBus.input)
+      instruments = InstrumentFactory.createDetached(master)
+      auxBuses = new AuxBusRack(master, audioEngine.auxBuses.getSettings())
+      player = new LoopPlayer(instruments, auxBuses)
+      player.setArrangement(arrangement ?? null)
+
+      // Each layer's channel and instruments are built here, while the offline context is active
+      for (const layer of layers) {
+        player.scheduleLayer(layer)
+      }
+
+      if (includeMetronome) {
+        metronome = new Metronome(context.destination, audioEngine.metronome.getVolume())
+        metronome.setEnabled(true)
+      }
+
+      if (onProgress) {
+        transport.scheduleRepeat((time) => {
+          onProgress(Math.min(1, time / durationSeconds))
+        }, '4n', 0)
+      }
+
+      transport.start(0)
+    } finally {
+      Tone.setContext(originalContext)
+    }
+
+    try {
+      // Reverb impulses must exist before the render starts pulling audio
+      await Promise.all([player?.ready(), auxBuses?.ready()])
+      const buffer = await context.render()
+      onProgress?.(1)
+      return buffer.get() as AudioBuffer
+    } finally {
+      player?.removeAllLayers()
+      instruments?.disposeAll()
+      metronome?.dispose()
+      auxBuses?.dispose()
+      masterBus?.dispose()
+    }
+  }
+
+  // Resolved independently of any transport so the live tempo is never touched
+  ticksToSeconds(ticks: number, bpm: number): number {
+    const ppq = Tone.getTransport().PPQ
+    return (ticks / ppq) * (60 / bpm)
+  }
+}
+
+export const offlineRenderer = new OfflineRenderer()
+export default offlineRenderer
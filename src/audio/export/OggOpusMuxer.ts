@@ -0,0 +1,191 @@
+// Opus encoder lookahead at 48 kHz, used when the encoder does not report its own header
+const DEFAULT_PRE_SKIP = 312
+const MAX_SEGMENTS_PER_PAGE = 255
+
+const HEADER_TYPE_BOS = 0x02
+const HEADER_TYPE_EOS = 0x04
+
+const CRC_TABLE = buildCrcTable()
+
+/**
+ * Wraps raw Opus packets in an Ogg container (RFC 7845).
+ * Packets must be added in order; finalize() returns the complete file.
+ */
+export class OggOpusMuxer {
+  private pages: Uint8Array[] = []
+  private pendingPackets: Uint8Array[] = []
+  private pendingSegments = 0
+  private pageSequence = 0
+  private granulePosition = 0
+  private serialNumber: number
+  private channels: number
+  private preSkip = DEFAULT_PRE_SKIP
+  private headerWritten = false
+
+  constructor(channels: number, serialNumber: number = Math.floor(Math.random() * 0xffffffff)) {
+    this.channels = channels
+    this.serialNumber = serialNumber
+  }
+
+  /**
+   * Write the identification and comment headers.
+   * Pass the encoder's decoder config description if it is an OpusHead, so pre-skip matches.
+   */
+  writeHeaders(description?: Uint8Array): void {
+    if (this.headerWritten) return
+    this.headerWritten = true
+
+    let head: Uint8Array
+    if (description && readString(description, 0, 8) === 'OpusHead') {
+      head = description
+      this.preSkip = new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true)
+    } else {
+      head = this.buildOpusHead()
+    }
+    this.granulePosition = this.preSkip
+
+    this.writePage([head], 0, HEADER_TYPE_BOS)
+    this.writePage([this.buildOpusTags()], 0, 0)
+  }
+
+  /**
+   * Add one encoded packet covering `samples` frames at 48 kHz
+   */
+  addPacket(packet: Uint8Array, samples: number): void {
+    if (!this.headerWritten) {
+      this.writeHeaders()
+    }
+
+    const segments = Math.floor(packet.length / 255) + 1
+    if (this.pendingSegments + segments > MAX_SEGMENTS_PER_PAGE) {
+      this.flushPage(0)
+    }
+
+    this.pendingPackets.push(packet)
+    this.pendingSegments += segments
+    this.granulePosition += samples
+  }
+
+  /**
+   * Close the stream. totalSamples trims encoder padding from the final page.
+   */
+  finalize(totalSamples?: number): Uint8Array {
+    if (!this.headerWritten) {
+      this.writeHeaders()
+    }
+
+    if (totalSamples !== undefined) {
+      this.granulePosition = Math.min(this.granulePosition, this.preSkip + totalSamples)
+    }
+    this.flushPage(HEADER_TYPE_EOS)
+
+    const size = this.pages.reduce((sum, page) => sum + page.length, 0)
+    const output = new Uint8Array(size)
+    let offset = 0
+    for (const page of this.pages) {
+      output.set(page, offset)
+      offset += page.length
+    }
+    return output
+  }
+
+  private flushPage(headerType: number): void {
+    // EOS must still be written even with nothing pending
+    if (this.pendingPackets.length === 0 && headerType !== HEADER_TYPE_EOS) return
+
+    this.writePage(this.pendingPackets, this.granulePosition, headerType)
+    this.pendingPackets = []
+    this.pendingSegments = 0
+  }
+
+  private writePage(packets: Uint8Array[], granule: number, headerType: number): void {
+    const lacing: number[] = []
+    for (const packet of packets) {
+      let remaining = packet.length
+      while (remaining >= 255) {
+        lacing.push(255)
+        remaining -= 255
+      }
+      lacing.push(remaining)
+    }
+
+    const bodySize = packets.reduce((sum, packet) => sum + packet.length, 0)
+    const page = new Uint8Array(27 + lacing.length + bodySize)
+    const view = new DataView(page.buffer)
+
+    writeString(page, 0, 'OggS')
+    view.setUint8(4, 0) // version
+    view.setUint8(5, headerType)
+    view.setUint32(6, granule % 0x100000000, true)
+    view.setUint32(10, Math.floor(granule / 0x100000000), true)
+    view.setUint32(14, this.serialNumber, true)
+    view.setUint32(18, this.pageSequence++, true)
+    view.setUint32(22, 0, true) // CRC placeholder
+    view.setUint8(26, lacing.length)
+    page.set(lacing, 27)
+
+    let offset = 27 + lacing.length
+    for (const packet of packets) {
+      page.set(packet, offset)
+      offset += packet.length
+    }
+
+    view.setUint32(22, crc32(page), true)
+    this.pages.push(page)
+  }
+
+  private buildOpusHead(): Uint8Array {
+    const head = new Uint8Array(19)
+    const view = new DataView(head.buffer)
+    writeString(head, 0, 'OpusHead')
+    view.setUint8(8, 1) // version
+    view.setUint8(9, this.channels)
+    view.setUint16(10, this.preSkip, true)
+    view.setUint32(12, 48000, true) // input sample rate (informational)
+    view.setInt16(16, 0, true) // output gain
+    view.setUint8(18, 0) // channel mapping family (mono/stereo)
+    return head
+  }
+
+  private buildOpusTags(): Uint8Array {
+    const vendor = 'makeloops'
+    const tags = new Uint8Array(8 + 4 + vendor.length + 4)
+    const view = new DataView(tags.buffer)
+    writeString(tags, 0, 'OpusTags')
+    view.setUint32(8, vendor.length, true)
+    writeString(tags, 12, vendor)
+    view.setUint32(12 + vendor.length, 0, true) // no user comments
+    return tags
+  }
+}
+
+function writeString(target: Uint8Array, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    target[offset + i] = value.charCodeAt(i)
+  }
+}
+
+function readString(source: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...source.subarray(offset, offset + length))
+}
+
+// Ogg uses the unreflected CRC-32 with polynomial 0x04c11db7
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1
+    }
+    table[i] = crc >>> 0
+  }
+  return table
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]!) & 0xff]!) >>> 0
+  }
+  return crc
+}
@@ -0,0 +1,73 @@
+import { zipSync, type Zippable } from 'fflate'
+import type { LoopLayer, PlaybackWindow } from '@/types'
+import offlineRenderer from './OfflineRenderer'
+
+export interface StemExportOptions {
+  layers: LoopLayer[]
+  bpm: number
+  durationTicks: number // every stem is rendered to this length so they line up
+  arrangement?: Map<string, PlaybackWindow[]>
+  sampleRate?: number
+  extension: string
+  encode: (buffer: AudioBuffer, onProgress: (progress: number) => void) => Promise<Blob> | Blob
+  onProgress?: (progress: number, layerName: string) => void // 0-1 across all stems
+}
+
+export class StemExporter {
+  /**
+   * Render each layer on its own and bundle the files into a single zip
+   */
+  async export(options: StemExportOptions): Promise<Blob> {
+    const { layers, bpm, durationTicks, arrangement, sampleRate, extension, encode, onProgress } = options
+    if (layers.length === 0) {
+      throw new Error('No layers to export')
+    }
+
+    const files: Zippable = {}
+    const usedNames = new Set<string>()
+    // Rendering and encoding each count for half of a stem's share of the progress
+    const stemShare = 1 / layers.length
+
+    for (const [index, layer] of layers.entries()) {
+      const report = (phase: number, progress: number) => {
+        onProgress?.((index + (phase + progress) / 2) * stemShare, layer.name)
+      }
+
+      // Render solo, unmuted: mute/solo already decided which layers are included
+      const buffer = await offlineRenderer.render({
+        layers: [{ ...layer, muted: false, solo: false }],
+        bpm,
+        durationTicks,
+        arrangement,
+        sampleRate,
+        onProgress: (progress) => report(0, progress),
+      })
+
+      const blob = await encode(buffer, (progress) => report(1, progress))
+      const name = this.uniqueFileName(layer.name, extension, usedNames)
+      // Audio is already compressed or incompressible PCM, so store without deflate
+      files[name] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }]
+    }
+
+    onProgress?.(1, '')
+    const zipped = zipSync(files)
+    return new Blob([zipped as Uint8Array<ArrayBuffer>], { type: 'application/zip' })
+  }
+
+  private uniqueFileName(layerName: string, extension: string, usedNames: Set<string>): string {
+    const base = layerName
+      .replace(/[\\/:*?"<>|]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim() || 'Layer'
+
+    let name = `${base}.${extension}`
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+      name = `${base} ${n}.${extension}`
+    }
+    usedNames.add(name.toLowerCase())
+    return name
+  }
+}
+
+export const stemExporter = new StemExporter()
+export default stemExporter
@@ -0,0 +1,96 @@
+export type WavBitDepth = 16 | 24 | 32 // 16/24 = integer PCM, 32 = IEEE float
+
+export interface WavEncodeOptions {
+  bitDepth?: WavBitDepth
+  dither?: boolean // TPDF dither, only applied to integer formats
+}
+
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+
+/**
+ * Encode an AudioBuffer as a RIFF/WAVE file.
+ * The sample rate is taken from the buffer, so render at the rate you want to ship.
+ */
+export function encodeWav(buffer: AudioBuffer, options: WavEncodeOptions = {}): Blob {
+  const { bitDepth = 16, dither = false } = options
+  const isFloat = bitDepth === 32
+  const channels = buffer.numberOfChannels
+  const frames = buffer.length
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = channels * bytesPerSample
+  const dataSize = frames * blockAlign
+
+  // Non-PCM formats need the cbSize field and a fact chunk
+  const fmtSize = isFloat ? 18 : 16
+  const factSize = isFloat ? 12 : 0
+  const headerSize = 12 + (8 + fmtSize) + factSize + 8
+
+  const view = new DataView(new ArrayBuffer(headerSize + dataSize))
+  let offset = 0
+
+  writeString(view, offset, 'RIFF')
+  view.setUint32(offset + 4, headerSize - 8 + dataSize, true)
+  writeString(view, offset + 8, 'WAVE')
+  offset += 12
+
+  writeString(view, offset, 'fmt ')
+  view.setUint32(offset + 4, fmtSize, true)
+  view.setUint16(offset + 8, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true)
+  view.setUint16(offset + 10, channels, true)
+  view.setUint32(offset + 12, buffer.sampleRate, true)
+  view.setUint32(offset + 16, buffer.sampleRate * blockAlign, true)
+  view.setUint16(offset + 20, blockAlign, true)
+  view.setUint16(offset + 22, bitDepth, true)
+  if (isFloat) {
+    view.setUint16(offset + 24, 0, true) // cbSize
+  }
+  offset += 8 + fmtSize
+
+  if (isFloat) {
+    writeString(view, offset, 'fact')
+    view.setUint32(offset + 4, 4, true)
+    view.setUint32(offset + 8, frames, true)
+    offset += factSize
+  }
+
+  writeString(view, offset, 'data')
+  view.setUint32(offset + 4, dataSize, true)
+  offset += 8
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c))
+  const maxInt = Math.pow(2, bitDepth - 1)
+  const applyDither = dither && !isFloat
+
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = channelData[c]![i]!
+
+      if (isFloat) {
+        view.setFloat32(offset, sample, true)
+      } else {
+        // Triangular dither of +/- 1 LSB decorrelates quantization error from the signal
+        const noise = applyDither ? Math.random() - Math.random() : 0
+        const scaled = Math.round(sample * maxInt + noise)
+        const clamped = Math.max(-maxInt, Math.min(maxInt - 1, scaled))
+
+        if (bitDepth === 16) {
+          view.setInt16(offset, clamped, true)
+        } else {
+          view.setUint8(offset, clamped & 0xff)
+          view.setUint8(offset + 1, (clamped >> 8) & 0xff)
+          view.setUint8(offset + 2, (clamped >> 16) & 0xff)
+        }
+      }
+      offset += bytesPerSample
+    }
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' })
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
@@ -0,0 +1,135 @@
+import { createMp3Encoder } from 'wasm-media-encoders'
+import { OggOpusMuxer } from './OggOpusMuxer'
+import type { EncoderRequest, EncoderResponse, Mp3Options, OpusOptions } from './CompressedEncoder'
+
+// Frames per encode call; small enough for smooth progress, large enough to stay fast
+const CHUNK_FRAMES = 48000
+const OPUS_SAMPLE_RATE = 48000
+
+function post(message: EncoderResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer })
+}
+
+async function encodeMp3(
+  id: number,
+  channels: Float32Array[],
+  sampleRate: number,
+  options: Mp3Options
+): Promise<Uint8Array> {
+  const encoder = await createMp3Encoder()
+  const base = { channels: channels.length as 1 | 2, sampleRate }
+  encoder.configure(
+    options.mode === 'vbr'
+      ? { ...base, vbrQuality: options.vbrQuality }
+      : { ...base, bitrate: options.bitrate }
+  )
+
+  const frames = channels[0]?.length ?? 0
+  const parts: Uint8Array[] = []
+  for (let start = 0; start < frames; start += CHUNK_FRAMES) {
+    const end = Math.min(frames, start + CHUNK_FRAMES)
+    // encode() reuses its output buffer, so copy before the next call
+    parts.push(encoder.encode(channels.map((data) => data.subarray(start, end))).slice())
+    post({ id, type: 'progress', progress: end / frames })
+  }
+  parts.push(encoder.finalize().slice())
+
+  return concat(parts)
+}
+
+async function encodeOpus(
+  id: number,
+  channels: Float32Array[],
+  sampleRate: number,
+  options: OpusOptions
+): Promise<Uint8Array> {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('Opus encoding is not supported in this browser')
+  }
+  if (sampleRate !== OPUS_SAMPLE_RATE) {
+    throw new Error(`Opus export requires ${OPUS_SAMPLE_RATE} Hz audio`)
+  }
+
+  const numberOfChannels = channels.length
+  const muxer = new OggOpusMuxer(numberOfChannels)
+  let encoderError: Error | null = null
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description
+      if (description) {
+        muxer.writeHeaders(
+          ArrayBuffer.isView(description)
+            ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+            : new Uint8Array(description)
+        )
+      }
+      const packet = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(packet)
+      const samples = Math.round(((chunk.duration ?? 0) * OPUS_SAMPLE_RATE) / 1_000_000)
+      muxer.addPacket(packet, samples)
+    },
+    error: (error) => {
+      encoderError = error
+    },
+  })
+
+  encoder.configure({
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels,
+    bitrate: options.bitrate,
+  })
+
+  const frames = channels[0]?.length ?? 0
+  for (let start = 0; start < frames; start += CHUNK_FRAMES) {
+    const end = Math.min(frames, start + CHUNK_FRAMES)
+    const numberOfFrames = end - start
+
+    // AudioData expects planar channels laid out back to back
+    const planar = new Float32Array(numberOfFrames * numberOfChannels)
+    channels.forEach((data, c) => planar.set(data.subarray(start, end), c * numberOfFrames))
+
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames,
+      numberOfChannels,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1_000_000),
+      data: planar,
+    })
+    encoder.encode(audioData)
+    audioData.close()
+    post({ id, type: 'progress', progress: end / frames })
+  }
+
+  await encoder.flush()
+  encoder.close()
+  if (encoderError) throw encoderError
+
+  return muxer.finalize(frames)
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
+
+self.onmessage = async (e: MessageEvent<EncoderRequest>) => {
+  const { id, channels, sampleRate, options } = e.data
+
+  try {
+    const data =
+      options.format === 'mp3'
+        ? await encodeMp3(id, channels, sampleRate, options)
+        : await encodeOpus(id, channels, sampleRate, options)
+    post({ id, type: 'done', data }, [data.buffer])
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -8,12 +8,15 @@ class FilteredNoiseSynth {
   private filter: Tone.Filter
   private lastTriggerTime: number = -1
 
-  constructor(options: { filterFreq: number; filterQ: number; decay: number; release: number }) {
+  constructor(
+    options: { filterFreq: number; filterQ: number; decay: number; release: number },
+    destination: Tone.InputNode
+  ) {
     this.filter = new Tone.Filter({
       frequency: options.filterFreq,
       type: 'highpass',
       Q: options.filterQ,
-    }).connect(audioEngine.masterGain)
+    }).connect(destination)
 
     this.noise = new Tone.NoiseSynth({
       noise: { type: 'white' },
@@ -42,9 +45,12 @@ class FilteredNoiseSynth {
 export class DrumKit {
   private synths: Map<DrumSound, Tone.Synth | Tone.MembraneSynth | Tone.NoiseSynth | FilteredNoiseSynth>
   private lastTriggerTimes: Map<DrumSound, number> = new Map()
+  private destination: Tone.InputNode
 
-  constructor() {
+  // Destination defaults to the live master bus; offline renders pass their own
+  constructor(destination: Tone.InputNode = audioEngine.masterGain) {
     this.synths = new Map()
+    this.destination = destination
     this.initDrums()
   }
 
@@ -55,14 +61,14 @@ export class DrumKit {
       octaves: 6,
       oscillator: { type: 'sine' },
       envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 0.4 },
-    }).connect(audioEngine.masterGain)
+    }).connect(this.destination)
     this.synths.set('kick', kick)
 
     // Snare - noise + membrane
     const snare = new Tone.NoiseSynth({
       noise: { type: 'white' },
       envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.1 },
-    }).connect(audioEngine.masterGain)
+    }).connect(this.destination)
     this.synths.set('snare', snare)
 
     // Hi-hat closed - filtered noise for reliable metallic sound
@@ -71,7 +77,7 @@ export class DrumKit {
       filterQ: 2,
       decay: 0.08,
       release: 0.02,
-    })
+    }, this.destination)
     this.synths.set('hihat-closed', hihatClosed)
 
     // Hi-hat open - longer decay
@@ -80,7 +86,7 @@ export class DrumKit {
       filterQ: 1.5,
       decay: 0.4,
       release: 0.15,
-    })
+    }, this.destination)
     this.synths.set('hihat-open', hihatOpen)
 
     // Tom high
@@ -88,7 +94,7 @@ export class DrumKit {
       pitchDecay: 0.03,
       octaves: 4,
       envelope: { attack: 0.001, decay: 0.2, sustain: 0.01, release: 0.2 },
-    }).connect(audioEngine.masterGain)
+    }).connect(this.destination)
     this.synths.set('tom-high', tomHigh)
 
     // Tom mid
@@ -96,7 +102,7 @@ export class DrumKit {
       pitchDecay: 0.03,
       octaves: 4,
       envelope: { attack: 0.001, decay: 0.25, sustain: 0.01, release: 0.25 },
-    }).connect(audioEngine.masterGain)
+    }).connect(this.destination)
     this.synths.set('tom-mid', tomMid)
 
     // Tom low
@@ -104,14 +110,14 @@ export class DrumKit {
       pitchDecay: 0.03,
       octaves: 4,
       envelope: { attack: 0.001, decay: 0.3, sustain: 0.01, release: 0.3 },
-    }).connect(audioEngine.masterGain)
+    }).connect(this.destination)
     this.synths.set('tom-low', tomLow)
 
     // Clap
     const clap = new Tone.NoiseSynth({
       noise: { type: 'pink' },
       envelope: { attack: 0.005, decay: 0.15, sustain: 0, release: 0.1 },
-    }).connect(audioEngine.masterGain)
+    }).connect(this.destination)
     this.synths.set('clap', clap)
 
     // Rim - short high-pitched click
@@ -120,7 +126,7 @@ export class DrumKit {
       filterQ: 4,
       decay: 0.03,
       release: 0.01,
-    })
+    }, this.destination)
     this.synths.set('rim', rim)
 
     // Crash - long wash
@@ -129,7 +135,7 @@ export class DrumKit {
       filterQ: 0.5,
       decay: 1.5,
       release: 0.8,
-    })
+    }, this.destination)
     this.synths.set('crash', crash)
   }
 
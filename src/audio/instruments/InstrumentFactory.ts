@@ -1,13 +1,18 @@
+import type * as Tone from 'tone'
+import audioEngine from '../AudioEngine'
 import { DrumKit } from './DrumKit'
 import { SynthInstrument } from './SynthInstrument'
 import type { InstrumentType } from '@/types'
 
-class InstrumentFactory {
+export class InstrumentFactory {
   private static instance: InstrumentFactory
   private drumKit: DrumKit | null = null
   private melodicInstruments: Map<InstrumentType, SynthInstrument> = new Map()
+  private destination: Tone.InputNode | undefined
 
-  private constructor() {}
+  private constructor(destination?: Tone.InputNode) {
+    this.destination = destination
+  }
 
   static getInstance(): InstrumentFactory {
     if (!InstrumentFactory.instance) {
@@ -16,9 +21,22 @@ class InstrumentFactory {
     return InstrumentFactory.instance
   }
 
+  /**
+   * Create a standalone factory whose instruments route into the given node.
+   * Instruments are built in whichever Tone context is active when first requested.
+   */
+  static createDetached(destination: Tone.InputNode): InstrumentFactory {
+    return new InstrumentFactory(destination)
+  }
+
+  // Where this factory's instruments play; other sources such as audio clips join them there
+  getDestination(): Tone.InputNode {
+    return this.destination ?? audioEngine.masterGain
+  }
+
   getDrumKit(): DrumKit {
     if (!this.drumKit) {
-      this.drumKit = new DrumKit()
+      this.drumKit = new DrumKit(this.destination)
     }
     return this.drumKit
   }
@@ -30,7 +48,7 @@ class InstrumentFactory {
 
     let instrument = this.melodicInstruments.get(type)
     if (!instrument) {
-      instrument = new SynthInstrument(type)
+      instrument = new SynthInstrument(type, this.destination)
       this.melodicInstruments.set(type, instrument)
     }
     return instrument
@@ -5,11 +5,14 @@ import type { InstrumentType } from '@/types'
 export class SynthInstrument {
   private synth: Tone.PolySynth
   public type: InstrumentType
+  private destination: Tone.InputNode
 
-  constructor(type: InstrumentType = 'synth') {
+  // Destination defaults to the live master bus; offline renders pass their own
+  constructor(type: InstrumentType = 'synth', destination: Tone.InputNode = audioEngine.masterGain) {
     this.type = type
+    this.destination = destination
     this.synth = this.createSynth(type)
-    this.synth.connect(audioEngine.masterGain)
+    this.synth.connect(destination)
   }
 
   private createSynth(type: InstrumentType): Tone.PolySynth {
@@ -97,8 +100,8 @@ export class SynthInstrument {
     this.synth.triggerRelease(note, time ?? Tone.now())
   }
 
-  releaseAll(): void {
-    this.synth.releaseAll()
+  releaseAll(time?: number): void {
+    this.synth.releaseAll(time)
   }
 
   triggerAttackRelease(note: string, duration: string = '8n', time?: number, velocity: number = 0.8): void {
@@ -117,6 +120,6 @@ export class SynthInstrument {
     this.synth.dispose()
     this.type = type
     this.synth = this.createSynth(type)
-    this.synth.connect(audioEngine.masterGain)
+    this.synth.connect(this.destination)
   }
 }
@@ -0,0 +1,55 @@
+import * as Tone from 'tone'
+import type { ArrangementSection, PlaybackWindow } from '@/types'
+
+export class ArrangementTimeline {
+  static sectionTicks(section: ArrangementSection): number {
+    return section.bars * Tone.Time('1m').toTicks()
+  }
+
+  static totalTicks(sections: ArrangementSection[]): number {
+    return sections.reduce((total, section) => total + this.sectionTicks(section), 0)
+  }
+
+  /**
+   * Transport tick where each section begins when the arrangement is played
+   * from `fromIndex` at `startTicks`. Earlier sections get no entry.
+   */
+  static sectionStarts(sections: ArrangementSection[], startTicks: number, fromIndex: number = 0): number[] {
+    const starts: number[] = []
+    let position = startTicks
+    for (let i = fromIndex; i < sections.length; i++) {
+      starts.push(position)
+      position += this.sectionTicks(sections[i]!)
+    }
+    return starts
+  }
+
+  /**
+   * Windows in which each layer plays. Back-to-back sections sharing a layer
+   * are merged, so its loop carries on rather than restarting at the boundary.
+   */
+  static layerWindows(
+    sections: ArrangementSection[],
+    startTicks: number,
+    fromIndex: number = 0
+  ): Map<string, PlaybackWindow[]> {
+    const windows: Map<string, PlaybackWindow[]> = new Map()
+    const starts = this.sectionStarts(sections, startTicks, fromIndex)
+
+    starts.forEach((start, i) => {
+      const section = sections[fromIndex + i]!
+      const end = start + this.sectionTicks(section)
+      for (const layerId of section.layerIds) {
+        const layerWindows = windows.get(layerId) ?? []
+        const previous = layerWindows[layerWindows.length - 1]
+        if (previous && previous.end === start) {
+          previous.end = end
+        } else {
+          layerWindows.push({ start, end })
+        }
+        windows.set(layerId, layerWindows)
+      }
+    })
+    return windows
+  }
+}
@@ -0,0 +1,95 @@
+import * as Tone from 'tone'
+import type { AudioClip } from '@/types'
+import compressedEncoder from '../export/CompressedEncoder'
+
+// Opus is always encoded at 48 kHz
+const OPUS_SAMPLE_RATE = 48000
+const CLIP_BITRATE = 96000
+
+function generateClipId(): string {
+  return `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked so large clips do not overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Decoded audio for clip layers, keyed by clip id. Layers only carry the
+ * compressed clip; playback and exports look the decoded buffer up here.
+ */
+export class AudioClipLibrary {
+  private buffers: Map<string, AudioBuffer> = new Map()
+  private loading: Map<string, Promise<AudioBuffer>> = new Map()
+
+  /**
+   * Decode an audio file for playback and compress it for storage
+   */
+  async importFile(file: File): Promise<{ clip: AudioClip; buffer: AudioBuffer }> {
+    const buffer = await Tone.getContext().decodeAudioData(await file.arrayBuffer())
+    const resampled = await this.resample(buffer, OPUS_SAMPLE_RATE)
+    const encoded = await compressedEncoder.encode(resampled, { format: 'opus', bitrate: CLIP_BITRATE })
+
+    const clip: AudioClip = {
+      id: generateClipId(),
+      format: 'opus',
+      data: bytesToBase64(new Uint8Array(await encoded.arrayBuffer())),
+      seconds: buffer.duration,
+      start: 0,
+    }
+    this.buffers.set(clip.id, buffer)
+    return { clip, buffer }
+  }
+
+  get(clipId: string): AudioBuffer | undefined {
+    return this.buffers.get(clipId)
+  }
+
+  // Decode a stored clip once; concurrent callers share the same decode
+  load(clip: AudioClip): Promise<AudioBuffer> {
+    const cached = this.buffers.get(clip.id)
+    if (cached) return Promise.resolve(cached)
+
+    let pending = this.loading.get(clip.id)
+    if (!pending) {
+      pending = Tone.getContext()
+        .decodeAudioData(base64ToBytes(clip.data).buffer)
+        .then((buffer) => {
+          this.buffers.set(clip.id, buffer)
+          return buffer
+        })
+        .finally(() => this.loading.delete(clip.id))
+      this.loading.set(clip.id, pending)
+    }
+    return pending
+  }
+
+  // Also mixes anything wider than stereo down to two channels
+  private async resample(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+    if (buffer.sampleRate === sampleRate && buffer.numberOfChannels <= 2) return buffer
+    const channels = Math.min(2, buffer.numberOfChannels)
+    const context = new OfflineAudioContext(channels, Math.ceil(buffer.duration * sampleRate), sampleRate)
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    source.connect(context.destination)
+    source.start()
+    return context.startRendering()
+  }
+}
+
+export const audioClipLibrary = new AudioClipLibrary()
+export default audioClipLibrary
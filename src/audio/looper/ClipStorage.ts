@@ -0,0 +1,79 @@
+import type { AudioClip } from '@/types'
+
+const DB_NAME = 'makeloops'
+const DB_VERSION = 1
+const CLIP_STORE = 'clips'
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Compressed audio of clips in saved sessions, kept in IndexedDB by clip id.
+ * localStorage allows only a few megabytes, which a single clip can fill.
+ */
+export class ClipStorage {
+  private db: Promise<IDBDatabase> | null = null
+  // Written or read during this page load; a clip's audio never changes once imported
+  private stored: Set<string> = new Set()
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => request.result.createObjectStore(CLIP_STORE)
+      this.db = settle(request)
+      // Let a later call try again
+      this.db.catch(() => {
+        this.db = null
+      })
+    }
+    return this.db
+  }
+
+  private async write(change: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(CLIP_STORE, 'readwrite')
+      change(transaction.objectStore(CLIP_STORE))
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  // Whether the clip's audio is safe to leave out of localStorage
+  isStored(clipId: string): boolean {
+    return this.stored.has(clipId)
+  }
+
+  async save(clips: AudioClip[]): Promise<void> {
+    const pending = clips.filter((clip) => clip.data && !this.stored.has(clip.id))
+    if (pending.length === 0) return
+    await this.write((store) => pending.forEach((clip) => store.put(clip.data, clip.id)))
+    pending.forEach((clip) => this.stored.add(clip.id))
+  }
+
+  async load(clipId: string): Promise<string | null> {
+    const db = await this.open()
+    const data = await settle(db.transaction(CLIP_STORE).objectStore(CLIP_STORE).get(clipId))
+    if (typeof data !== 'string') return null
+    this.stored.add(clipId)
+    return data
+  }
+
+  // Drop audio that no saved session refers to any more
+  async prune(keepIds: Set<string>): Promise<void> {
+    const db = await this.open()
+    const keys = await settle(db.transaction(CLIP_STORE).objectStore(CLIP_STORE).getAllKeys())
+    const unused = keys.filter((key) => !keepIds.has(String(key)))
+    if (unused.length === 0) return
+    await this.write((store) => unused.forEach((key) => store.delete(key)))
+    unused.forEach((key) => this.stored.delete(String(key)))
+  }
+}
+
+export const clipStorage = new ClipStorage()
+export default clipStorage
@@ -0,0 +1,93 @@
+import type { AutomationPoint, AutomationTarget, LoopLayer } from '@/types'
+import { EFFECT_DEFINITIONS } from '../effects/EffectChain'
+
+export interface AutomationRange {
+  label: string
+  min: number
+  max: number
+  step: number
+  unit?: string
+}
+
+const VOLUME_RANGE: AutomationRange = { label: 'Volume', min: -40, max: 6, step: 0.5, unit: 'dB' }
+const PAN_RANGE: AutomationRange = { label: 'Pan', min: -1, max: 1, step: 0.01 }
+
+export class LayerAutomation {
+  static targetKey(target: AutomationTarget): string {
+    return target.type === 'effect' ? `effect:${target.effectId}:${target.param}` : target.type
+  }
+
+  /**
+   * Everything on the layer that can be automated, in display order
+   */
+  static targets(layer: LoopLayer): { target: AutomationTarget; range: AutomationRange }[] {
+    const targets: { target: AutomationTarget; range: AutomationRange }[] = [
+      { target: { type: 'volume' }, range: VOLUME_RANGE },
+      { target: { type: 'pan' }, range: PAN_RANGE },
+    ]
+    for (const effect of layer.effects ?? []) {
+      const definition = EFFECT_DEFINITIONS[effect.type]
+      for (const spec of definition.params) {
+        if (!spec.automate) continue
+        targets.push({
+          target: { type: 'effect', effectId: effect.id, param: spec.key },
+          range: { label: `${definition.label} ${spec.label}`, min: spec.min, max: spec.max, step: spec.step, unit: spec.unit },
+        })
+      }
+    }
+    return targets
+  }
+
+  // Null when the target's effect has been removed
+  static range(target: AutomationTarget, layer: LoopLayer): AutomationRange | null {
+    const key = this.targetKey(target)
+    return this.targets(layer).find((t) => this.targetKey(t.target) === key)?.range ?? null
+  }
+
+  // The value the target has without automation
+  static baseValue(target: AutomationTarget, layer: LoopLayer): number {
+    if (target.type === 'volume') return layer.volume
+    if (target.type === 'pan') return layer.pan
+    const effect = layer.effects?.find((e) => e.id === target.effectId)
+    const spec = effect && EFFECT_DEFINITIONS[effect.type].params.find((p) => p.key === target.param)
+    return effect?.params[target.param] ?? spec?.default ?? 0
+  }
+
+  /**
+   * Linear interpolation between breakpoints; holds the first and last values outside them
+   */
+  static valueAt(points: AutomationPoint[], time: number): number {
+    if (points.length === 0) return 0
+    const first = points[0]!
+    const last = points[points.length - 1]!
+    if (time <= first.time) return first.value
+    if (time >= last.time) return last.value
+
+    for (let i = 1; i < points.length; i++) {
+      const next = points[i]!
+      if (time > next.time) continue
+      const previous = points[i - 1]!
+      const span = next.time - previous.time
+      return span > 0 ? previous.value + ((time - previous.time) / span) * (next.value - previous.value) : next.value
+    }
+    return last.value
+  }
+
+  /**
+   * The curve over one cycle of `length` ticks, with breakpoints at both ends.
+   * Points outside the cycle (left behind by cropping) shape the ends but are dropped.
+   */
+  static clip(points: AutomationPoint[], length: number): AutomationPoint[] {
+    if (points.length === 0 || length <= 0) return []
+    const inside = points.filter((point) => point.time > 0 && point.time < length)
+    return [
+      { time: 0, value: this.valueAt(points, 0) },
+      ...inside,
+      { time: length, value: this.valueAt(points, length) },
+    ]
+  }
+
+  static sortPoints(points: AutomationPoint[]): AutomationPoint[] {
+    return [...points].sort((a, b) => a.time - b.time)
+  }
+}
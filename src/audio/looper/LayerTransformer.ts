@@ -0,0 +1,190 @@
+import type { LayerTransform, LoopLayer, LoopNote, RootNote, ScaleName } from '@/types'
+import { LoopNotes } from './LoopNotes'
+import { midiToNote, noteToMidi } from '@/utils/notes'
+import { ROOT_NOTES, SCALE_DEFINITIONS } from '@/utils/scales'
+
+const MIN_VELOCITY = 0.05
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+function roundVelocity(velocity: number): number {
+  return Math.round(clamp(velocity, MIN_VELOCITY, 1) * 100) / 100
+}
+
+// Small deterministic generator (mulberry32), so the same seed always humanizes the same way
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export class LayerTransformer {
+  /**
+   * A transformed copy of the layer. Only notes starting inside the loop
+   * region change, except for speed, which rescales the whole layer.
+   */
+  static apply(layer: LoopLayer, transform: LayerTransform): LoopLayer {
+    if (transform.type === 'speed') {
+      return LayerTransformer.changeSpeed(layer, transform.factor)
+    }
+
+    const percussive = layer.instrumentId === 'drums'
+    const notes = LoopNotes.fromEvents(layer.events, layer.cropEnd, percussive ? 0 : undefined)
+    const region = { start: layer.cropStart, end: layer.cropEnd }
+    const inside = notes.filter((note) => note.time >= region.start && note.time < region.end)
+    const outside = notes.filter((note) => !inside.includes(note))
+
+    let changed: LoopNote[]
+    switch (transform.type) {
+      case 'transpose':
+        changed = percussive ? inside : LayerTransformer.transpose(inside, (midi) => midi + transform.semitones)
+        break
+      case 'transpose-degrees':
+        changed = percussive
+          ? inside
+          : LayerTransformer.transpose(inside, (midi) =>
+              LayerTransformer.shiftDegrees(midi, transform.degrees, transform.root, transform.scale)
+            )
+        break
+      case 'velocity':
+        changed = LayerTransformer.scaleVelocity(inside, transform.scale, transform.compress)
+        break
+      case 'reverse':
+        changed = LayerTransformer.reverse(inside, region)
+        break
+      case 'shift':
+        changed = LayerTransformer.rotate(inside, region, transform.ticks)
+        break
+      case 'humanize':
+        changed = LayerTransformer.humanize(inside, region, transform)
+        break
+    }
+
+    return { ...layer, events: LoopNotes.toEvents([...outside, ...changed], percussive) }
+  }
+
+  // Short name for menus, history entries and copies
+  static describe(transform: LayerTransform): string {
+    const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`)
+    switch (transform.type) {
+      case 'transpose':
+        return `Transpose ${signed(transform.semitones)}`
+      case 'transpose-degrees':
+        return `Transpose ${signed(transform.degrees)} degrees`
+      case 'velocity':
+        return 'Velocity'
+      case 'reverse':
+        return 'Reverse'
+      case 'speed':
+        return transform.factor > 1 ? 'Double speed' : 'Half speed'
+      case 'shift':
+        return 'Shift'
+      case 'humanize':
+        return 'Humanize'
+    }
+  }
+
+  // Notes that would leave the MIDI range stay where they are
+  private static transpose(notes: LoopNote[], shift: (midi: number) => number): LoopNote[] {
+    return notes.map((note) => {
+      const midi = noteToMidi(note.note)
+      if (midi === null) return note
+      const shifted = shift(midi)
+      return shifted < 0 || shifted > 127 ? note : { ...note, note: midiToNote(shifted) }
+    })
+  }
+
+  /**
+   * Move a pitch by scale steps. Notes outside the scale count from the
+   * degree below and keep their distance from it.
+   */
+  static shiftDegrees(midi: number, degrees: number, root: RootNote, scale: ScaleName): number {
+    const intervals = SCALE_DEFINITIONS[scale].intervals.filter((interval) => interval < 12)
+    const fromRoot = midi - ROOT_NOTES.indexOf(root)
+    const octave = Math.floor(fromRoot / 12)
+    const pitchClass = fromRoot - octave * 12
+
+    let degree = intervals.length - 1
+    while (intervals[degree]! > pitchClass) degree--
+    const offset = pitchClass - intervals[degree]!
+
+    const target = degree + degrees
+    const targetOctave = octave + Math.floor(target / intervals.length)
+    const targetDegree = target - Math.floor(target / intervals.length) * intervals.length
+    return ROOT_NOTES.indexOf(root) + targetOctave * 12 + intervals[targetDegree]! + offset
+  }
+
+  // Compression pulls every velocity towards the average before scaling
+  private static scaleVelocity(notes: LoopNote[], scale: number, compress: number): LoopNote[] {
+    if (notes.length === 0) return notes
+    const average = notes.reduce((sum, note) => sum + note.velocity, 0) / notes.length
+    return notes.map((note) => ({
+      ...note,
+      velocity: roundVelocity((average + (note.velocity - average) * (1 - compress)) * scale),
+    }))
+  }
+
+  // Mirrors the loop region so each note ends where its mirror image started
+  private static reverse(notes: LoopNote[], region: { start: number; end: number }): LoopNote[] {
+    return notes.map((note) => {
+      const time = region.start + region.end - note.time - note.duration
+      // Drum hits have no length, so a hit on the downbeat would land on the loop end
+      return { ...note, time: time >= region.end ? region.start : Math.max(region.start, time) }
+    })
+  }
+
+  private static rotate(notes: LoopNote[], region: { start: number; end: number }, ticks: number): LoopNote[] {
+    const length = region.end - region.start
+    if (length <= 0) return notes
+    return notes.map((note) => {
+      const offset = (((note.time - region.start + ticks) % length) + length) % length
+      return { ...note, time: region.start + Math.round(offset) }
+    })
+  }
+
+  // Timing moves each note as a whole, so lengths are kept
+  private static humanize(
+    notes: LoopNote[],
+    region: { start: number; end: number },
+    settings: { timing: number; velocity: number; seed: number }
+  ): LoopNote[] {
+    const random = seededRandom(settings.seed)
+    return notes.map((note) => {
+      const nudge = Math.round((random() * 2 - 1) * settings.timing)
+      const accent = (random() * 2 - 1) * settings.velocity
+      return {
+        ...note,
+        time: clamp(note.time + nudge, region.start, region.end - 1),
+        velocity: roundVelocity(note.velocity + accent),
+      }
+    })
+  }
+
+  /**
+   * Double speed halves every position and length on the layer, half speed
+   * doubles them, so the loop itself gets shorter or longer.
+   */
+  private static changeSpeed(layer: LoopLayer, factor: number): LoopLayer {
+    const scale = (ticks: number) => Math.round(ticks / factor)
+    return {
+      ...layer,
+      events: layer.events.map((event) => ({ ...event, time: scale(event.time) })),
+      duration: scale(layer.duration),
+      cropStart: scale(layer.cropStart),
+      cropEnd: scale(layer.cropEnd),
+      startPadding: scale(layer.startPadding),
+      endPadding: scale(layer.endPadding),
+      automation: layer.automation?.map((lane) => ({
+        ...lane,
+        points: lane.points.map((point) => ({ ...point, time: scale(point.time) })),
+      })),
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { LoopNote, MidiEvent } from '@/types'
+
+// A release and a new strike on the same tick belong to different notes, so releases go first
+function byTime(a: MidiEvent, b: MidiEvent): number {
+  return a.time - b.time || (a.type === b.type ? 0 : a.type === 'noteOff' ? -1 : 1)
+}
+
+export class LoopNotes {
+  /**
+   * Pair note-ons with their note-offs, first in first out per pitch.
+   * Notes never released run to `end`. Percussive layers only record hits,
+   * so when `hitLength` is given every note-on becomes a note that long.
+   */
+  static fromEvents(events: MidiEvent[], end: number, hitLength?: number): LoopNote[] {
+    const sorted = [...events].sort(byTime)
+
+    if (hitLength !== undefined) {
+      return LoopNotes.sort(
+        sorted
+          .filter((event) => event.type === 'noteOn')
+          .map((event) => ({ note: event.note, time: event.time, duration: hitLength, velocity: event.velocity }))
+      )
+    }
+
+    const notes: LoopNote[] = []
+    const open: Map<string, LoopNote[]> = new Map()
+    for (const event of sorted) {
+      if (event.type === 'noteOn') {
+        const note: LoopNote = { note: event.note, time: event.time, duration: 0, velocity: event.velocity }
+        notes.push(note)
+        open.set(event.note, [...(open.get(event.note) ?? []), note])
+      } else {
+        const note = open.get(event.note)?.shift()
+        if (note) note.duration = event.time - note.time
+      }
+    }
+    open.forEach((held) => held.forEach((note) => (note.duration = Math.max(0, end - note.time))))
+    return LoopNotes.sort(notes)
+  }
+
+  /**
+   * Flatten notes back into events. Percussive layers get note-ons only.
+   */
+  static toEvents(notes: LoopNote[], percussive: boolean = false): MidiEvent[] {
+    const events: MidiEvent[] = []
+    for (const note of LoopNotes.sort(notes)) {
+      events.push({ type: 'noteOn', note: note.note, velocity: note.velocity, time: note.time })
+      if (!percussive) {
+        events.push({ type: 'noteOff', note: note.note, velocity: 0, time: note.time + note.duration })
+      }
+    }
+    return events.sort(byTime)
+  }
+
+  // By start time, then pitch name so chords keep a stable order
+  static sort(notes: LoopNote[]): LoopNote[] {
+    return [...notes].sort((a, b) => a.time - b.time || a.note.localeCompare(b.note))
+  }
+
+  // Identifies a note within one layer; two notes never share a pitch and start
+  static key(note: LoopNote): string {
+    return `${note.note}@${note.time}`
+  }
+}
@@ -0,0 +1,173 @@
+import type { LoopLayer, MidiEvent, OverdubMode, PunchRange } from '@/types'
+import { noteToMidi } from '@/utils/notes'
+
+export interface OverdubTake {
+  events: MidiEvent[] // take-relative ticks
+  originTicks: number // absolute transport ticks of take time 0
+  playedTicks: number // how long the take actually recorded for
+}
+
+interface PairedNote {
+  on: MidiEvent
+  off: MidiEvent | null
+}
+
+export class LoopOverdub {
+  /**
+   * Merge a take into a looping layer. Take events are folded onto the layer's
+   * cropped length at the position the layer was playing when they were recorded.
+   * Replace mode first removes existing notes inside the played range.
+   */
+  static mergeTake(
+    layer: Pick<LoopLayer, 'events' | 'cropStart' | 'cropEnd'>,
+    take: OverdubTake,
+    mode: OverdubMode
+  ): MidiEvent[] {
+    const loopLength = layer.cropEnd - layer.cropStart
+    if (loopLength <= 0) return layer.events
+
+    const kept = mode === 'replace'
+      ? LoopOverdub.removeNotesInRange(layer.events, layer.cropStart, loopLength, take)
+      : layer.events
+
+    const added = LoopOverdub.wrapToLoop(take, layer.cropStart, loopLength)
+    return [...kept, ...added].sort((a, b) => a.time - b.time)
+  }
+
+  /**
+   * Replace only the part of a layer inside the punch window with the last pass
+   * of the take that played over it. Notes crossing the punch-in are cut there;
+   * new notes still held at the punch-out are closed at it.
+   */
+  static punchTake(
+    layer: Pick<LoopLayer, 'events' | 'cropStart' | 'cropEnd'>,
+    take: OverdubTake,
+    range: PunchRange
+  ): MidiEvent[] {
+    const loopLength = layer.cropEnd - layer.cropStart
+    const rangeStart = Math.max(0, range.start)
+    const rangeEnd = Math.min(loopLength, range.end)
+    if (loopLength <= 0 || rangeEnd <= rangeStart) return layer.events
+
+    const windowStart = layer.cropStart + rangeStart
+    const windowEnd = layer.cropStart + rangeEnd
+
+    // Existing notes: keep those outside, cut those crossing the punch-in, drop the rest
+    const kept: MidiEvent[] = []
+    for (const { on, off } of LoopOverdub.pairNotes(layer.events)) {
+      const inCrop = on.time >= layer.cropStart && on.time < layer.cropEnd
+      if (!inCrop || on.time >= windowEnd) {
+        kept.push(on, ...(off ? [off] : []))
+      } else if (on.time < windowStart) {
+        kept.push(on)
+        if (off) kept.push(off.time > windowStart ? { ...off, time: windowStart } : off)
+      }
+    }
+
+    // New notes: only those starting inside the window on the latest pass that has any
+    const notes = LoopOverdub.pairNotes(take.events).map((note) => {
+      const absolute = take.originTicks + note.on.time
+      return {
+        ...note,
+        pass: Math.floor(absolute / loopLength),
+        position: LoopOverdub.loopPosition(absolute, loopLength),
+      }
+    })
+    const candidates = notes.filter((n) => n.position >= rangeStart && n.position < rangeEnd)
+    const lastPass = Math.max(...candidates.map((n) => n.pass))
+
+    const added: MidiEvent[] = []
+    for (const note of candidates.filter((n) => n.pass === lastPass)) {
+      const start = layer.cropStart + note.position
+      added.push({ ...note.on, time: start })
+      if (note.off) {
+        const length = note.off.time - note.on.time
+        added.push({ ...note.off, time: Math.min(windowEnd, start + length) })
+      } else if (noteToMidi(note.on.note) !== null) {
+        // Melodic note still held when recording stopped
+        added.push({ type: 'noteOff', note: note.on.note, velocity: 0, time: windowEnd })
+      }
+    }
+
+    return [...kept, ...added].sort((a, b) => a.time - b.time)
+  }
+
+  // Pair note-ons with their note-offs, first in first out per pitch
+  private static pairNotes(events: MidiEvent[]): PairedNote[] {
+    const notes: PairedNote[] = []
+    const open: Map<string, PairedNote[]> = new Map()
+    for (const event of [...events].sort((a, b) => a.time - b.time)) {
+      if (event.type === 'noteOn') {
+        const note: PairedNote = { on: event, off: null }
+        notes.push(note)
+        open.set(event.note, [...(open.get(event.note) ?? []), note])
+      } else {
+        const note = open.get(event.note)?.shift()
+        if (note) note.off = event
+      }
+    }
+    return notes
+  }
+
+  private static loopPosition(absoluteTicks: number, loopLength: number): number {
+    return ((absoluteTicks % loopLength) + loopLength) % loopLength
+  }
+
+  // Fold take events onto the loop, dropping note-offs that would land before their note-on
+  private static wrapToLoop(take: OverdubTake, cropStart: number, loopLength: number): MidiEvent[] {
+    const wrapped: MidiEvent[] = []
+    const openNotes: Map<string, number[]> = new Map()
+
+    const events = [...take.events].sort((a, b) => a.time - b.time)
+    for (const event of events) {
+      const time = cropStart + LoopOverdub.loopPosition(take.originTicks + event.time, loopLength)
+
+      if (event.type === 'noteOn') {
+        openNotes.set(event.note, [...(openNotes.get(event.note) ?? []), time])
+        wrapped.push({ ...event, time })
+        continue
+      }
+
+      const start = openNotes.get(event.note)?.shift()
+      // A note held across the loop end is released there by LoopPlayer instead
+      if (start !== undefined && time <= start) continue
+      wrapped.push({ ...event, time })
+    }
+
+    return wrapped
+  }
+
+  // Remove notes that start inside the part of the loop the take played over
+  private static removeNotesInRange(
+    events: MidiEvent[],
+    cropStart: number,
+    loopLength: number,
+    take: OverdubTake
+  ): MidiEvent[] {
+    const rangeStart = LoopOverdub.loopPosition(take.originTicks, loopLength)
+    const rangeEnd = rangeStart + take.playedTicks
+    const inRange = (time: number) => {
+      if (take.playedTicks >= loopLength) return true
+      const position = time - cropStart
+      return (position >= rangeStart && position < rangeEnd) ||
+        (position + loopLength >= rangeStart && position + loopLength < rangeEnd)
+    }
+
+    // Per pitch, whether each open note (first in, first out) was removed
+    const openNotes: Map<string, boolean[]> = new Map()
+    return [...events]
+      .sort((a, b) => a.time - b.time)
+      .filter((event) => {
+        if (event.time < cropStart || event.time >= cropStart + loopLength) return true
+
+        if (event.type === 'noteOn') {
+          const removed = inRange(event.time)
+          openNotes.set(event.note, [...(openNotes.get(event.note) ?? []), removed])
+          return !removed
+        }
+
+        // Drop the note-off belonging to a removed note
+        return !openNotes.get(event.note)?.shift()
+      })
+  }
+}
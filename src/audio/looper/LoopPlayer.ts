@@ -1,6 +1,22 @@
 import * as Tone from 'tone'
-import type { LoopLayer, DrumSound } from '@/types'
-import instrumentFactory from '../instruments/InstrumentFactory'
+import type {
+  LoopLayer,
+  DrumSound,
+  InstrumentType,
+  LayerMidiOutput,
+  LayerEffect,
+  LayerSend,
+  AutomationTarget,
+  PlaybackWindow,
+} from '@/types'
+import instrumentFactory, { type InstrumentFactory } from '../instruments/InstrumentFactory'
+import { DrumKit } from '../instruments/DrumKit'
+import { SynthInstrument } from '../instruments/SynthInstrument'
+import audioClipLibrary from './AudioClipLibrary'
+import { LayerAutomation } from './LayerAutomation'
+import { EffectChain, type AutomatableParam } from '../effects/EffectChain'
+import type { AuxBusRack } from '../effects/AuxBuses'
+import audioEngine from '../AudioEngine'
 
 // Drum sound names for detection
 const DRUM_SOUNDS: Set<string> = new Set([
@@ -14,18 +30,119 @@ function isDrumSound(note: string): boolean {
 
 interface ScheduledLayer {
   layerId: string
-  eventIds: number[]
+  eventIds: number[] // transport events, such as arrangement window ends
   part: Tone.Part | null
-  volume: number // in dB
+  player: Tone.Player | null // audio clip layers only
+  automation: { part: Tone.Part; restore: () => void } | null
+}
+
+// A layer's own mixer channel, its insert effects and the instruments that play into them
+interface LayerChannel {
+  channel: Tone.Channel
+  chain: EffectChain
+  sends: Map<string, { gain: Tone.Gain; preFader: boolean }> // by bus id
+  instrumentId: InstrumentType
+  synth: SynthInstrument | null
+  drumKit: DrumKit | null
+}
+
+// Receives the events of layers routed to an external MIDI output
+export interface LayerMidiSink {
+  noteOn(target: LayerMidiOutput, note: string, velocity: number, time: number): void
+  noteOff(target: LayerMidiOutput, note: string, time: number): void
+  allNotesOff(): void
 }
 
 export class LoopPlayer {
   private scheduledLayers: Map<string, ScheduledLayer> = new Map()
+  private channels: Map<string, LayerChannel> = new Map()
   public loopDuration: number = 0 // in ticks
+  private instruments: InstrumentFactory
+  private auxBuses: AuxBusRack
+  private midiSink: LayerMidiSink | null = null
+  private arrangement: Map<string, PlaybackWindow[]> | null = null // by layer id
+  private launchTicks: Map<string, number> = new Map() // layers launched mid-playback, by layer id
+
+  // Channels feed the factory's destination and sends feed the aux buses: live ones, or an offline render's
+  constructor(instruments: InstrumentFactory = instrumentFactory, auxBuses: AuxBusRack = audioEngine.auxBuses) {
+    this.instruments = instruments
+    this.auxBuses = auxBuses
+    // Clip players are started with explicit times, so they need stopping with the transport
+    Tone.getTransport().on('stop', (time: number) => this.handleTransportStop(time))
+    Tone.getTransport().on('pause', (time: number) => this.handleTransportStop(time))
+  }
+
+  setMidiSink(sink: LayerMidiSink | null): void {
+    this.midiSink = sink
+  }
 
-  // Convert dB to linear gain multiplier
-  private dbToLinear(db: number): number {
-    return Math.pow(10, db / 20)
+  /**
+   * Play layers only inside their arrangement windows instead of looping from
+   * the start of the transport. Takes effect as layers are (re)scheduled.
+   */
+  setArrangement(windows: Map<string, PlaybackWindow[]> | null): void {
+    this.arrangement = windows
+  }
+
+  // Null when layers loop freely
+  private windowsFor(layerId: string): PlaybackWindow[] | null {
+    return this.arrangement ? (this.arrangement.get(layerId) ?? []) : null
+  }
+
+  // Starts at transport zero or its launch point, or once per arrangement window with the loop restarting each time
+  private startPart(part: Tone.Part, layerId: string): void {
+    const windows = this.windowsFor(layerId)
+    if (!windows) {
+      part.start(`${this.launchTicks.get(layerId) ?? 0}i`)
+      return
+    }
+    for (const window of windows) {
+      part.start(`${window.start}i`)
+      part.stop(`${window.end}i`)
+    }
+  }
+
+  // A window can end mid-cycle, so release held notes and clip audio there
+  private scheduleWindowEnds(layerId: string, scheduled: ScheduledLayer): void {
+    if (!this.scheduledLayers.has(layerId)) return
+    for (const window of this.windowsFor(layerId) ?? []) {
+      this.scheduleRelease(layerId, scheduled, window.end)
+    }
+  }
+
+  private scheduleRelease(layerId: string, scheduled: ScheduledLayer, ticks: number): void {
+    const entry = this.channels.get(layerId)
+    const eventId = Tone.getTransport().schedule((time) => {
+      entry?.synth?.releaseAll(time)
+      if (scheduled.player?.state === 'started') scheduled.player.stop(time)
+    }, `${ticks}i`)
+    scheduled.eventIds.push(eventId)
+  }
+
+  /**
+   * Start a layer from the top of its loop at `ticks` rather than in step with
+   * transport zero. The layer is left muted in the store until then; nothing
+   * sounds before the part starts.
+   */
+  launchLayer(layer: LoopLayer, ticks: number): void {
+    this.launchTicks.set(layer.id, ticks)
+    this.scheduleLayer({ ...layer, muted: false })
+    const entry = this.channels.get(layer.id)
+    if (entry) entry.channel.mute = false
+  }
+
+  // Stop a playing layer at `ticks`, releasing anything still sounding there
+  stopLayerAt(layerId: string, ticks: number): void {
+    const scheduled = this.scheduledLayers.get(layerId)
+    if (!scheduled) return
+    scheduled.part?.stop(`${ticks}i`)
+    scheduled.automation?.part.stop(`${ticks}i`)
+    this.scheduleRelease(layerId, scheduled, ticks)
+  }
+
+  // Launch points only hold for one run of the transport
+  clearLaunches(): void {
+    this.launchTicks.clear()
   }
 
   setLoopDuration(ticks: number): void {
@@ -39,12 +156,21 @@ export class LoopPlayer {
     this.unscheduleLayer(layer.id)
 
     if (layer.muted) return
+    if (this.windowsFor(layer.id)?.length === 0) return
 
     const scheduled: ScheduledLayer = {
       layerId: layer.id,
       eventIds: [],
       part: null,
-      volume: layer.volume,
+      player: null,
+      automation: null,
+    }
+
+    if (layer.clip) {
+      this.scheduleClip(layer, scheduled)
+      this.scheduleWindowEnds(layer.id, scheduled)
+      this.scheduleAutomation(layer, scheduled)
+      return
     }
 
     // Get the appropriate instrument
@@ -61,40 +187,235 @@ export class LoopPlayer {
 
     // Extract layer properties to avoid closure issues with Vue reactive proxies
     const layerId = layer.id
-    const instrumentId = layer.instrumentId
+    const midiTarget = layer.midiOutput ? { ...layer.midiOutput } : null
+
+    // Instruments are built now: offline renders fire parts after their context is restored
+    const hasDrumSounds = isDrums || croppedEvents.some((event) => isDrumSound(event.note))
+    const layerChannel = this.getChannel(layer, hasDrumSounds)
 
     // Create a Part for synchronized playback
     const part = new Tone.Part((time, event) => {
-      const scheduledData = self.scheduledLayers.get(layerId)
-      if (!scheduledData) return
-
-      // Apply volume scaling to velocity
-      const volumeMultiplier = self.dbToLinear(scheduledData.volume)
-      const scaledVelocity = Math.min(1, Math.max(0, event.velocity * volumeMultiplier))
+      if (!self.scheduledLayers.has(layerId)) return
 
       // Check if this is a drum sound (either by layer type OR by note name as failsafe)
       const isThisDrumSound = isDrums || isDrumSound(event.note)
 
       if (isThisDrumSound) {
-        const drumKit = instrumentFactory.getDrumKit()
         // For drums, the note is actually the drum sound name
-        drumKit.trigger(event.note as DrumSound, time, scaledVelocity)
-      } else {
-        const synth = instrumentFactory.getMelodicInstrument(instrumentId)
+        layerChannel.drumKit?.trigger(event.note as DrumSound, time, event.velocity)
+      } else if (layerChannel.synth) {
         if (event.type === 'noteOn') {
-          synth.noteOn(event.note, scaledVelocity, time)
+          layerChannel.synth.noteOn(event.note, event.velocity, time)
         } else {
-          synth.noteOff(event.note, time)
+          layerChannel.synth.noteOff(event.note, time)
+        }
+      }
+
+      if (midiTarget && self.midiSink) {
+        if (event.type === 'noteOn') {
+          self.midiSink.noteOn(midiTarget, event.note, event.velocity, time)
+        } else if (!isThisDrumSound) {
+          self.midiSink.noteOff(midiTarget, event.note, time)
         }
       }
     }, croppedEvents)
 
     part.loop = true
     part.loopEnd = Tone.Ticks(effectiveDuration).toSeconds()
-    part.start(0)
+    this.startPart(part, layerId)
 
     scheduled.part = part
     this.scheduledLayers.set(layerId, scheduled)
+    this.scheduleWindowEnds(layerId, scheduled)
+    this.scheduleAutomation(layer, scheduled)
+  }
+
+  /**
+   * Automation loops as its own Part alongside the layer's notes, so every cycle
+   * restarts the curves from the loop start. Lanes whose effect is gone are skipped.
+   */
+  private scheduleAutomation(layer: LoopLayer, scheduled: ScheduledLayer): void {
+    const entry = this.channels.get(layer.id)
+    const effectiveDuration = layer.cropEnd - layer.cropStart
+    if (!entry || !this.scheduledLayers.has(layer.id) || effectiveDuration <= 0) return
+
+    const curves = (layer.automation ?? []).flatMap((lane) => {
+      const param = this.resolveParam(entry, lane.target)
+      const points = LayerAutomation.clip(lane.points, effectiveDuration)
+      if (!param || points.length === 0) return []
+      return [{ param, points: points.map((p) => ({ time: Tone.Ticks(p.time).toSeconds(), value: p.value })) }]
+    })
+    if (curves.length === 0) return
+
+    const self = this
+    const layerId = layer.id
+
+    const part = new Tone.Part((time) => {
+      if (!self.scheduledLayers.has(layerId)) return
+      for (const { param, points } of curves) {
+        param.cancelScheduledValues(time)
+        param.setValueAtTime(points[0]!.value, time)
+        for (const point of points.slice(1)) {
+          param.linearRampToValueAtTime(point.value, time + point.time)
+        }
+      }
+    }, [{ time: 0 }])
+
+    part.loop = true
+    part.loopEnd = Tone.Ticks(effectiveDuration).toSeconds()
+    this.startPart(part, layerId)
+
+    scheduled.automation = {
+      part,
+      // Reads the layer when called, so fader moves made meanwhile are kept
+      restore: () => {
+        // A muted channel parks its volume at -Infinity; setting it would unmute
+        if (!entry.channel.mute) entry.channel.volume.value = layer.volume
+        entry.channel.pan.value = layer.pan
+        entry.chain.restoreParams()
+      },
+    }
+  }
+
+  private resolveParam(entry: LayerChannel, target: AutomationTarget): AutomatableParam | undefined {
+    if (target.type === 'volume') return entry.channel.volume
+    if (target.type === 'pan') return entry.channel.pan
+    return entry.chain.getParam(target.effectId, target.param)
+  }
+
+  private disposeAutomation(scheduled: ScheduledLayer): void {
+    if (!scheduled.automation) return
+    scheduled.automation.part.dispose()
+    scheduled.automation.restore()
+    scheduled.automation = null
+  }
+
+  /**
+   * Loop a clip layer's audio over its cropped range. The clip is not stretched,
+   * so its offsets are worked out in seconds at the tempo it is scheduled at.
+   * Clips still being decoded are skipped; the store reschedules them once ready.
+   */
+  private scheduleClip(layer: LoopLayer, scheduled: ScheduledLayer): void {
+    const clip = layer.clip
+    const buffer = clip ? audioClipLibrary.get(clip.id) : undefined
+    const effectiveDuration = layer.cropEnd - layer.cropStart
+    if (!clip || !buffer || effectiveDuration <= 0) return
+
+    const player = new Tone.Player(buffer).connect(this.getChannel(layer, false).chain.input)
+
+    const delay = Tone.Ticks(Math.max(0, clip.start - layer.cropStart)).toSeconds()
+    const offset = Tone.Ticks(Math.max(0, layer.cropStart - clip.start)).toSeconds()
+    const audible = Tone.Ticks(layer.cropEnd - Math.max(clip.start, layer.cropStart)).toSeconds()
+    const duration = Math.min(clip.seconds - offset, audible)
+
+    const part = new Tone.Part((time) => {
+      if (duration > 0) {
+        player.start(time + delay, offset, duration)
+      }
+    }, [{ time: 0 }])
+
+    part.loop = true
+    part.loopEnd = Tone.Ticks(effectiveDuration).toSeconds()
+    this.startPart(part, layer.id)
+
+    scheduled.part = part
+    scheduled.player = player
+    this.scheduledLayers.set(layer.id, scheduled)
+  }
+
+  /**
+   * Get or build the layer's channel. Each layer has its own instruments so its
+   * fader, pan and mute act on its sound alone.
+   */
+  private getChannel(layer: LoopLayer, needsDrums: boolean): LayerChannel {
+    let entry = this.channels.get(layer.id)
+    if (!entry) {
+      const channel = new Tone.Channel({ volume: layer.volume, pan: layer.pan })
+      channel.connect(this.instruments.getDestination())
+      const chain = new EffectChain()
+      chain.output.connect(channel)
+      chain.setEffects(layer.effects ?? [])
+      entry = { channel, chain, sends: new Map(), instrumentId: layer.instrumentId, synth: null, drumKit: null }
+      this.channels.set(layer.id, entry)
+      this.applySends(entry, layer.sends ?? [])
+    }
+
+    if (entry.synth && entry.instrumentId !== layer.instrumentId) {
+      entry.synth.dispose()
+      entry.synth = null
+    }
+    entry.instrumentId = layer.instrumentId
+
+    if (!layer.clip && layer.instrumentId !== 'drums' && !entry.synth) {
+      entry.synth = new SynthInstrument(layer.instrumentId, entry.chain.input)
+    }
+    if (needsDrums && !entry.drumKit) {
+      entry.drumKit = new DrumKit(entry.chain.input)
+    }
+    return entry
+  }
+
+  // Pre-fader sends tap the end of the insert chain, post-fader ones the channel output
+  // Silent sends get no tap at all, so unused buses cost nothing
+  private applySends(entry: LayerChannel, allSends: LayerSend[]): void {
+    const sends = allSends.filter((send) => send.level > 0)
+    const busIds = new Set(sends.map((send) => send.busId))
+    entry.sends.forEach((send, busId) => {
+      if (!busIds.has(busId)) {
+        send.gain.dispose()
+        entry.sends.delete(busId)
+      }
+    })
+
+    for (const send of sends) {
+      const busInput = this.auxBuses.getInput(send.busId)
+      if (!busInput) continue
+      let tap = entry.sends.get(send.busId)
+      if (tap && tap.preFader !== send.preFader) {
+        tap.gain.dispose()
+        tap = undefined
+      }
+      if (!tap) {
+        const source = send.preFader ? entry.chain.output : entry.channel
+        tap = { gain: new Tone.Gain(send.level).connect(busInput), preFader: send.preFader }
+        source.connect(tap.gain)
+        entry.sends.set(send.busId, tap)
+      } else {
+        tap.gain.gain.rampTo(send.level, 0.02)
+      }
+    }
+  }
+
+  private disposeChannel(layerId: string): void {
+    const entry = this.channels.get(layerId)
+    if (!entry) return
+    entry.sends.forEach((send) => send.gain.dispose())
+    entry.synth?.dispose()
+    entry.drumKit?.dispose()
+    entry.chain.dispose()
+    entry.channel.dispose()
+    this.channels.delete(layerId)
+  }
+
+  private handleTransportStop(time: number): void {
+    this.stopClipPlayers(time)
+    this.panicLayerNotes()
+  }
+
+  private panicLayerNotes(): void {
+    const release = () => this.channels.forEach((entry) => entry.synth?.releaseAll())
+    release()
+    // Catch events already queued in Tone's scheduler, like InstrumentFactory.panicAllNotes
+    setTimeout(release, 50)
+    setTimeout(release, 100)
+  }
+
+  private stopClipPlayers(time?: number): void {
+    this.scheduledLayers.forEach((scheduled) => {
+      if (scheduled.player?.state === 'started') {
+        scheduled.player.stop(time)
+      }
+    })
   }
 
   private buildCroppedEvents(
@@ -166,23 +487,54 @@ export class LoopPlayer {
   unscheduleLayer(layerId: string): void {
     const scheduled = this.scheduledLayers.get(layerId)
     if (scheduled) {
+      scheduled.eventIds.forEach((eventId) => Tone.getTransport().clear(eventId))
+      this.disposeAutomation(scheduled)
       scheduled.part?.dispose()
+      scheduled.player?.dispose()
       this.scheduledLayers.delete(layerId)
     }
   }
 
   unscheduleAll(): void {
     this.scheduledLayers.forEach((scheduled) => {
+      scheduled.eventIds.forEach((eventId) => Tone.getTransport().clear(eventId))
+      this.disposeAutomation(scheduled)
       scheduled.part?.dispose()
+      scheduled.player?.dispose()
     })
     this.scheduledLayers.clear()
   }
 
+  // Unschedule a deleted layer and free its channel and instruments
+  removeLayer(layerId: string): void {
+    this.unscheduleLayer(layerId)
+    this.disposeChannel(layerId)
+    this.launchTicks.delete(layerId)
+  }
+
+  removeAllLayers(): void {
+    this.unscheduleAll()
+    Array.from(this.channels.keys()).forEach((layerId) => this.disposeChannel(layerId))
+    this.launchTicks.clear()
+  }
+
+  // Mutes at the channel too, so the layer's tails stop without touching other layers
   updateLayerMute(layerId: string, muted: boolean): void {
     const scheduled = this.scheduledLayers.get(layerId)
     if (scheduled?.part) {
       scheduled.part.mute = muted
     }
+    if (scheduled?.automation) {
+      scheduled.automation.part.mute = muted
+    }
+    if (muted && scheduled?.player?.state === 'started') {
+      scheduled.player.stop()
+    }
+    const entry = this.channels.get(layerId)
+    if (entry) {
+      entry.channel.mute = muted
+      if (muted) entry.synth?.releaseAll()
+    }
   }
 
   // Mute all parts and silence all notes
@@ -192,19 +544,48 @@ export class LoopPlayer {
         scheduled.part.mute = true
       }
     })
-    instrumentFactory.panicAllNotes()
+    this.stopClipPlayers()
+    this.instruments.panicAllNotes()
+    this.panicLayerNotes()
+    this.midiSink?.allNotesOff()
   }
 
   // Just silence notes without changing mute state
   silenceAllNotes(): void {
-    instrumentFactory.panicAllNotes()
+    this.instruments.panicAllNotes()
+    this.panicLayerNotes()
+    this.midiSink?.allNotesOff()
   }
 
+  // Short ramps keep fader and pan moves free of zipper noise
   updateLayerVolume(layerId: string, volume: number): void {
-    const scheduled = this.scheduledLayers.get(layerId)
-    if (scheduled) {
-      scheduled.volume = volume
-    }
+    this.channels.get(layerId)?.channel.volume.rampTo(volume, 0.02)
+  }
+
+  updateLayerPan(layerId: string, pan: number): void {
+    this.channels.get(layerId)?.channel.pan.rampTo(pan, 0.02)
+  }
+
+  updateLayerEffects(layerId: string, effects: LayerEffect[]): void {
+    this.channels.get(layerId)?.chain.setEffects(effects)
+  }
+
+  // Rebuilds only the automation, leaving the layer's notes playing
+  updateLayerAutomation(layer: LoopLayer): void {
+    const scheduled = this.scheduledLayers.get(layer.id)
+    if (!scheduled) return
+    this.disposeAutomation(scheduled)
+    this.scheduleAutomation(layer, scheduled)
+  }
+
+  updateLayerSends(layerId: string, sends: LayerSend[]): void {
+    const entry = this.channels.get(layerId)
+    if (entry) this.applySends(entry, sends)
+  }
+
+  // Resolves once every layer's effects can render (reverb impulses are generated async)
+  async ready(): Promise<void> {
+    await Promise.all(Array.from(this.channels.values()).map((entry) => entry.chain.ready()))
   }
 
   isLayerScheduled(layerId: string): boolean {
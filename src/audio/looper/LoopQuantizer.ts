@@ -1,4 +1,5 @@
 import * as Tone from 'tone'
+import type { MidiEvent, QuantizeSettings } from '@/types'
 
 export class LoopQuantizer {
   /**
@@ -30,6 +31,71 @@ export class LoopQuantizer {
     return Math.round(time / gridTicks) * gridTicks
   }
 
+  /**
+   * Snap a timestamp to a swung grid, moving it `strength` of the way there.
+   * Swing delays every odd grid step by up to a third of a step.
+   */
+  static quantizeTimeWithFeel(
+    time: number,
+    gridTicks: number,
+    strength: number,
+    swing: number
+  ): number {
+    const swingOffset = (swing * gridTicks) / 3
+    const step = Math.round(time / gridTicks)
+    // The odd step might sit closer to the note once swung, so compare both neighbours
+    const candidates = [step - 1, step, step + 1].map((n) => n * gridTicks + (n % 2 !== 0 ? swingOffset : 0))
+    const target = candidates.reduce((best, candidate) =>
+      Math.abs(candidate - time) < Math.abs(best - time) ? candidate : best
+    )
+    return Math.round(time + (target - time) * strength)
+  }
+
+  /**
+   * Quantize a take against a grid starting at loop.start. Note-offs either snap
+   * to the grid as well or follow their note-on so lengths are kept.
+   * Notes pushed onto the loop end wrap around to the loop start.
+   */
+  static quantizeEvents(
+    events: MidiEvent[],
+    settings: QuantizeSettings,
+    loop: { start: number; end: number }
+  ): MidiEvent[] {
+    const gridTicks = Tone.Time(settings.grid).toTicks()
+    const snap = (time: number) =>
+      loop.start + LoopQuantizer.quantizeTimeWithFeel(time - loop.start, gridTicks, settings.strength, settings.swing)
+    const wrap = (snapped: number, original: number) =>
+      original < loop.end && snapped >= loop.end ? snapped - (loop.end - loop.start) : snapped
+
+    // Pair note-offs with their note-on (first in, first out per pitch)
+    const openNotes: Map<string, Array<{ start: number; shift: number; wrap: number }>> = new Map()
+    const quantized = [...events]
+      .sort((a, b) => a.time - b.time)
+      .map((event) => {
+        if (event.type === 'noteOn') {
+          const snapped = snap(event.time)
+          const start = wrap(snapped, event.time)
+          // Note-offs move with the note-on, including any wrap to the loop start
+          openNotes.set(event.note, [
+            ...(openNotes.get(event.note) ?? []),
+            { start, shift: start - event.time, wrap: start - snapped },
+          ])
+          return { ...event, time: start }
+        }
+
+        const note = openNotes.get(event.note)?.shift()
+        if (!note) return event
+
+        const keptLength = event.time + note.shift
+        if (!settings.quantizeEnds) return { ...event, time: keptLength }
+        // Snap the end too, unless that would collapse the note
+        const snappedEnd = snap(event.time) + note.wrap
+        return { ...event, time: snappedEnd > note.start ? snappedEnd : keptLength }
+      })
+
+    return quantized.sort((a, b) => a.time - b.time)
+  }
+
   /**
    * Calculate the number of measures in a loop
    */
@@ -46,6 +112,14 @@ export class LoopQuantizer {
     return Math.ceil((currentTicks + 1) / measureTicks) * measureTicks
   }
 
+  /**
+   * Get the next grid boundary after a given time, e.g. '4n' or '2m'
+   */
+  static getNextBoundary(currentTicks: number, gridSize: string = '1m'): number {
+    const gridTicks = Tone.Time(gridSize).toTicks()
+    return Math.ceil((currentTicks + 1) / gridTicks) * gridTicks
+  }
+
   /**
    * Check if a time is on a measure boundary
    */
@@ -1,11 +1,13 @@
 import * as Tone from 'tone'
-import type { MidiEvent, InstrumentType } from '@/types'
+import type { MidiEvent, InstrumentType, QuantizeSettings, RecordLength } from '@/types'
+import { LoopQuantizer } from './LoopQuantizer'
 
 export interface RecordingSession {
   events: MidiEvent[]
   startTicks: number
   endTicks: number
   instrumentType: InstrumentType
+  originalEvents?: MidiEvent[] // unquantized timing, when quantized on finalize
 }
 
 // Drum sound names for detection
@@ -26,10 +28,40 @@ export class LoopRecorder {
   private loopOffsetTicks = 0
   private loopListener: (() => void) | null = null
   private melodicInstrumentType: InstrumentType = 'piano'
+  private recordLength: RecordLength = 1
+  private keepCountIn = false
+  private alignToTransport = false
+  private quantize: QuantizeSettings | null = null
 
   // Track held notes even when not recording (for injecting when recording starts)
   private heldNotes: Map<string, number> = new Map() // note -> velocity
 
+  // Rolling buffer of everything played, recording or not, for retroactive capture.
+  // Times are on the transport's continuous timeline while it runs, otherwise on
+  // the audio clock. Starting or stopping the transport begins a new timeline.
+  private captureBuffer: MidiEvent[] = []
+  private captureBars = 8
+  private captureOffsetTicks = 0
+  private timelineId = 0
+  private captureTimelineId = -1
+  private captureFreeTime = false // buffer was filled with the transport stopped
+
+  constructor() {
+    const transport = Tone.getTransport()
+    transport.on('loop', () => {
+      const loopEndTicks = Tone.Time(transport.loopEnd).toTicks()
+      if (Number.isFinite(loopEndTicks) && loopEndTicks > 0) {
+        this.captureOffsetTicks += loopEndTicks
+      }
+    })
+    const newTimeline = () => {
+      this.timelineId++
+      this.captureOffsetTicks = 0
+    }
+    transport.on('start', newTimeline)
+    transport.on('stop', newTimeline)
+  }
+
   private getAbsoluteTicks(): number {
     return Tone.getTransport().ticks + this.loopOffsetTicks
   }
@@ -41,15 +73,36 @@ export class LoopRecorder {
     }
   }
 
-  startRecording(melodicInstrumentType: InstrumentType): void {
+  /**
+   * Start capturing. With a count-in the take begins countInTicks from now;
+   * notes played before that are dropped unless keepCountIn is set, in which
+   * case they become pickup notes wrapped onto the end of the loop.
+   * alignToTransport folds the take onto loops of its own length counted from
+   * transport zero, where the other layers start, so it stays in phase with them.
+   */
+  startRecording(
+    melodicInstrumentType: InstrumentType,
+    options: {
+      length?: RecordLength
+      countInTicks?: number
+      keepCountIn?: boolean
+      quantize?: QuantizeSettings | null
+      alignToTransport?: boolean
+    } = {}
+  ): void {
+    const { length = 1, countInTicks = 0, keepCountIn = false, quantize = null, alignToTransport = false } = options
     this.drumEvents = []
     this.melodicEvents = []
     this.melodicInstrumentType = melodicInstrumentType
+    this.recordLength = length
+    this.keepCountIn = keepCountIn
+    this.alignToTransport = alignToTransport
+    this.quantize = quantize
     this.isRecording = true
 
     // Start capturing immediately - boundaries are quantized on stop
     this.loopOffsetTicks = 0
-    this.startTicks = this.getAbsoluteTicks()
+    this.startTicks = this.getAbsoluteTicks() + countInTicks
 
     if (!this.loopListener) {
       this.loopListener = this.handleTransportLoop.bind(this)
@@ -67,25 +120,45 @@ export class LoopRecorder {
 
     const sessions: RecordingSession[] = []
 
-    // Force loop to be exactly 1 bar regardless of actual stop time
+    // Fixed lengths ignore the actual stop time; free takes are rounded up to the bar
     const start = this.startTicks
-    const oneBarTicks = Tone.Time('1m').toTicks()
-    const end = start + oneBarTicks
+    const length = this.recordLength === 'free'
+      ? LoopQuantizer.quantizeBoundaries(0, this.getAbsoluteTicks() - start).end
+      : Tone.Time(`${this.recordLength}m`).toTicks()
+    const end = start + length
+
+    // Pickup notes from the count-in land at the end of the loop, leading into the downbeat.
+    // Aligned takes wrap every note, pickups included, onto the transport's loop grid.
+    const wrap = (ticks: number) => ((ticks % length) + length) % length
+    const toLoopTime = (time: number) => {
+      if (this.alignToTransport) return wrap(time)
+      const relative = time - start
+      return relative < 0 ? wrap(relative) : relative
+    }
+
+    const createSession = (events: MidiEvent[], instrumentType: InstrumentType): RecordingSession => {
+      const session: RecordingSession = {
+        events,
+        startTicks: 0,
+        endTicks: end - start,
+        instrumentType,
+      }
+      if (this.quantize) {
+        session.events = LoopQuantizer.quantizeEvents(events, this.quantize, { start: 0, end: length })
+        session.originalEvents = events
+      }
+      return session
+    }
 
     // Create drum session if there are drum events
     if (this.drumEvents.length > 0) {
       const normalizedDrumEvents = this.drumEvents.map(e => ({
         ...e,
-        time: e.time - start,
+        time: toLoopTime(e.time),
       }))
 
       if (normalizedDrumEvents.length > 0) {
-        sessions.push({
-          events: normalizedDrumEvents,
-          startTicks: 0,
-          endTicks: end - start,
-          instrumentType: 'drums',
-        })
+        sessions.push(createSession(normalizedDrumEvents, 'drums'))
       }
     }
 
@@ -93,16 +166,11 @@ export class LoopRecorder {
     if (this.melodicEvents.length > 0) {
       const normalizedMelodicEvents = this.melodicEvents.map(e => ({
         ...e,
-        time: e.time - start,
+        time: toLoopTime(e.time),
       }))
 
       if (normalizedMelodicEvents.length > 0) {
-        sessions.push({
-          events: normalizedMelodicEvents,
-          startTicks: 0,
-          endTicks: end - start,
-          instrumentType: this.melodicInstrumentType,
-        })
+        sessions.push(createSession(normalizedMelodicEvents, this.melodicInstrumentType))
       }
     }
 
@@ -114,8 +182,8 @@ export class LoopRecorder {
 
     const currentTicks = this.getAbsoluteTicks()
 
-    // Only record if we're past the start point
-    if (currentTicks >= this.startTicks) {
+    // Only record if we're past the start point (or keeping count-in pickups)
+    if (currentTicks >= this.startTicks || this.keepCountIn) {
       const event: MidiEvent = {
         type: 'noteOn',
         note,
@@ -137,7 +205,7 @@ export class LoopRecorder {
 
     const currentTicks = this.getAbsoluteTicks()
 
-    if (currentTicks >= this.startTicks) {
+    if (currentTicks >= this.startTicks || this.keepCountIn) {
       const event: MidiEvent = {
         type: 'noteOff',
         note,
@@ -157,17 +225,111 @@ export class LoopRecorder {
   // Track note on even when not recording (for external held-note tracking)
   trackNoteOn(note: string, velocity: number): void {
     this.heldNotes.set(note, velocity)
+    this.pushCaptureEvent({ type: 'noteOn', note, velocity, time: this.getCaptureTicks() })
   }
 
   // Track note off even when not recording
   trackNoteOff(note: string): void {
     this.heldNotes.delete(note)
+    this.pushCaptureEvent({ type: 'noteOff', note, velocity: 0, time: this.getCaptureTicks() })
+  }
+
+  setCaptureBars(bars: number): void {
+    this.captureBars = bars
+  }
+
+  private isTransportRunning(): boolean {
+    return Tone.getTransport().state === 'started'
+  }
+
+  private getCaptureTicks(): number {
+    if (this.isTransportRunning()) {
+      return Tone.getTransport().ticks + this.captureOffsetTicks
+    }
+    return Math.round(Tone.Time(Tone.now()).toTicks())
+  }
+
+  private pushCaptureEvent(event: MidiEvent): void {
+    if (this.captureTimelineId !== this.timelineId) {
+      this.captureBuffer = []
+      this.captureTimelineId = this.timelineId
+      this.captureFreeTime = !this.isTransportRunning()
+    }
+    this.captureBuffer.push(event)
+
+    const oldest = event.time - this.captureBars * Tone.Time('1m').toTicks()
+    const firstKept = this.captureBuffer.findIndex((e) => e.time >= oldest)
+    if (firstKept > 0) {
+      this.captureBuffer.splice(0, firstKept)
+    }
+  }
+
+  /**
+   * Turn the most recent phrase in the capture buffer into sessions.
+   * The phrase is everything after the last bar-long silence; it is fitted to
+   * the shortest 1/2/4/8...-bar span that holds it, on the transport's bar grid
+   * (or starting on its first note if the transport was stopped).
+   */
+  capture(melodicInstrumentType: InstrumentType): RecordingSession[] {
+    const measureTicks = Tone.Time('1m').toTicks()
+    const tolerance = Tone.Time('16n').toTicks() // notes slightly early still count as the downbeat
+    const events = [...this.captureBuffer].sort((a, b) => a.time - b.time)
+    const noteOns = events.filter((e) => e.type === 'noteOn')
+    if (noteOns.length === 0) return []
+
+    let phraseStart = noteOns[noteOns.length - 1]!.time
+    for (let i = noteOns.length - 1; i > 0; i--) {
+      if (noteOns[i]!.time - noteOns[i - 1]!.time >= measureTicks) break
+      phraseStart = noteOns[i - 1]!.time
+    }
+    const lastNoteOn = noteOns[noteOns.length - 1]!.time
+
+    // Spans sit on multiples of their own length, so longer captures stay in phase with the loops
+    const gridOrigin = this.captureFreeTime ? phraseStart : 0
+    const alignedStart = (time: number, length: number) =>
+      gridOrigin + Math.floor((time - gridOrigin) / length) * length
+    let bars = 1
+    let spanStart = alignedStart(phraseStart + tolerance, measureTicks)
+    while (spanStart + bars * measureTicks <= lastNoteOn && bars < this.captureBars) {
+      bars = Math.min(bars * 2, this.captureBars)
+      spanStart = alignedStart(phraseStart + tolerance, bars * measureTicks)
+    }
+
+    // Phrase longer than the buffer: keep the span that holds the last note
+    const spanLength = bars * measureTicks
+    if (spanStart + spanLength <= lastNoteOn) {
+      spanStart = alignedStart(lastNoteOn, spanLength)
+    }
+
+    const inSpan = events
+      .filter((e) => e.time >= spanStart - tolerance && e.time < spanStart + spanLength)
+      .map((e) => ({ ...e, time: Math.max(0, e.time - spanStart) }))
+
+    const drumEvents = inSpan.filter((e) => isDrumSound(e.note))
+    const melodicEvents = inSpan.filter((e) => !isDrumSound(e.note))
+    const sessions: RecordingSession[] = []
+    if (drumEvents.some((e) => e.type === 'noteOn')) {
+      sessions.push({ events: drumEvents, startTicks: 0, endTicks: spanLength, instrumentType: 'drums' })
+    }
+    if (melodicEvents.some((e) => e.type === 'noteOn')) {
+      sessions.push({ events: melodicEvents, startTicks: 0, endTicks: spanLength, instrumentType: melodicInstrumentType })
+    }
+    return sessions
   }
 
   isCurrentlyRecording(): boolean {
     return this.isRecording
   }
 
+  isCountingIn(): boolean {
+    return this.isRecording && this.getAbsoluteTicks() < this.startTicks
+  }
+
+  // Current position on the recorder's continuous (unlooped) timeline
+  getPositionTicks(): number {
+    return this.getAbsoluteTicks()
+  }
+
   getStartTicks(): number {
     return this.startTicks
   }
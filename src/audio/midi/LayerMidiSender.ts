@@ -0,0 +1,48 @@
+import * as Tone from 'tone'
+import type { DrumSound, LayerMidiOutput } from '@/types'
+import type { LayerMidiSink } from '../looper/LoopPlayer'
+import { GM_DRUM_NOTES, noteToMidi } from '@/utils/notes'
+import midiOutputInstance, { type MidiOutput } from './MidiOutput'
+
+// Drum hits have no note-off of their own, so each one is closed after this long
+const DRUM_GATE_SECONDS = 0.05
+
+/**
+ * Plays layer events on external MIDI outputs. Drum sounds go out as their
+ * General MIDI notes; every channel used gets an all-notes-off when playback stops.
+ */
+export class LayerMidiSender implements LayerMidiSink {
+  private output: MidiOutput
+  private usedTargets: Map<string, LayerMidiOutput> = new Map()
+
+  constructor(output: MidiOutput = midiOutputInstance) {
+    this.output = output
+    Tone.getTransport().on('stop', () => this.allNotesOff())
+  }
+
+  noteOn(target: LayerMidiOutput, note: string, velocity: number, time: number): void {
+    this.usedTargets.set(`${target.outputId}:${target.channel}`, target)
+
+    const drumNote = GM_DRUM_NOTES[note as DrumSound]
+    if (drumNote !== undefined) {
+      this.output.noteOn(target.outputId, target.channel, drumNote, velocity, time)
+      this.output.noteOff(target.outputId, target.channel, drumNote, time + DRUM_GATE_SECONDS)
+      return
+    }
+
+    const pitch = noteToMidi(note)
+    if (pitch !== null) this.output.noteOn(target.outputId, target.channel, pitch, velocity, time)
+  }
+
+  noteOff(target: LayerMidiOutput, note: string, time: number): void {
+    const pitch = noteToMidi(note)
+    if (pitch !== null) this.output.noteOff(target.outputId, target.channel, pitch, time)
+  }
+
+  allNotesOff(): void {
+    for (const target of this.usedTargets.values()) {
+      this.output.allNotesOff(target.outputId, target.channel)
+    }
+    this.usedTargets.clear()
+  }
+}
@@ -0,0 +1,112 @@
+// MIDI beat clock: sending it from the transport and following an incoming one
+
+import * as Tone from 'tone'
+import midiOutputInstance, { type MidiOutput } from './MidiOutput'
+
+export const CLOCKS_PER_QUARTER = 24
+const SIXTEENTHS_PER_QUARTER = 4
+
+const TIMING_CLOCK = 0xf8
+const START = 0xfa
+const CONTINUE = 0xfb
+const STOP = 0xfc
+const SONG_POSITION = 0xf2
+
+/**
+ * Sends 24 PPQN clock plus start/stop/continue to one output, driven by the
+ * Tone transport so the pulses track tempo changes and stay with the audio.
+ */
+export class MidiClockOut {
+  private output: MidiOutput
+  private outputId: string | null = null
+  private repeatId: number | null = null
+
+  constructor(output: MidiOutput = midiOutputInstance) {
+    this.output = output
+  }
+
+  start(outputId: string): void {
+    this.stop()
+    this.outputId = outputId
+
+    const transport = Tone.getTransport()
+    transport.on('start', this.handleStart)
+    transport.on('stop', this.handleStop)
+    transport.on('pause', this.handleStop)
+
+    const clockTicks = transport.PPQ / CLOCKS_PER_QUARTER
+    this.repeatId = transport.scheduleRepeat((time) => {
+      if (this.outputId) this.output.send(this.outputId, [TIMING_CLOCK], time)
+    }, `${clockTicks}i`, 0)
+  }
+
+  stop(): void {
+    const transport = Tone.getTransport()
+    transport.off('start', this.handleStart)
+    transport.off('stop', this.handleStop)
+    transport.off('pause', this.handleStop)
+    if (this.repeatId !== null) {
+      transport.clear(this.repeatId)
+      this.repeatId = null
+    }
+    this.outputId = null
+  }
+
+  getOutputId(): string | null {
+    return this.outputId
+  }
+
+  // From the top sends Start; from anywhere else the position, then Continue
+  private handleStart = (time: number, offset: number) => {
+    if (!this.outputId) return
+    const ticks = Tone.Time(offset).toTicks()
+    if (ticks <= 0) {
+      this.output.send(this.outputId, [START], time)
+      return
+    }
+    const sixteenth = Tone.getTransport().PPQ / SIXTEENTHS_PER_QUARTER
+    const position = Math.min(0x3fff, Math.floor(ticks / sixteenth))
+    this.output.send(this.outputId, [SONG_POSITION, position & 0x7f, position >> 7], time)
+    this.output.send(this.outputId, [CONTINUE], time)
+  }
+
+  private handleStop = (time: number) => {
+    if (this.outputId) this.output.send(this.outputId, [STOP], time)
+  }
+}
+
+/**
+ * Estimates tempo from incoming clock pulses, averaged over one beat so single
+ * late messages do not make the tempo jump.
+ */
+export class MidiClockFollower {
+  private lastTimestamp: number | null = null
+  private intervals: number[] = []
+
+  // Milliseconds (performance.now() clock); returns the tempo once a beat of pulses has arrived
+  clock(timestamp: number): number | null {
+    if (this.lastTimestamp !== null) {
+      const interval = timestamp - this.lastTimestamp
+      // A gap of over a second means the clock paused; start averaging again
+      if (interval > 0 && interval < 1000) {
+        this.intervals.push(interval)
+        if (this.intervals.length > CLOCKS_PER_QUARTER) this.intervals.shift()
+      } else {
+        this.intervals = []
+      }
+    }
+    this.lastTimestamp = timestamp
+
+    if (this.intervals.length < CLOCKS_PER_QUARTER) return null
+    const average = this.intervals.reduce((sum, i) => sum + i, 0) / this.intervals.length
+    return Math.round((60000 / (average * CLOCKS_PER_QUARTER)) * 10) / 10
+  }
+
+  reset(): void {
+    this.lastTimestamp = null
+    this.intervals = []
+  }
+}
+
+export const midiClockOut = new MidiClockOut()
+export default midiClockOut
@@ -0,0 +1,324 @@
+// Standard MIDI File (SMF) encoding and decoding
+
+export type SmfEvent =
+  | { tick: number; type: 'noteOn'; channel: number; note: number; velocity: number }
+  | { tick: number; type: 'noteOff'; channel: number; note: number; velocity: number }
+  | { tick: number; type: 'programChange'; channel: number; program: number }
+  | { tick: number; type: 'controlChange'; channel: number; controller: number; value: number }
+  | { tick: number; type: 'tempo'; microsecondsPerQuarter: number }
+  | { tick: number; type: 'timeSignature'; numerator: number; denominator: number }
+  | { tick: number; type: 'trackName'; text: string }
+
+export interface SmfTrack {
+  events: SmfEvent[]
+}
+
+export interface SmfFile {
+  format: 0 | 1
+  ppq: number // ticks per quarter note
+  tracks: SmfTrack[]
+}
+
+export function bpmToMicroseconds(bpm: number): number {
+  return Math.round(60_000_000 / bpm)
+}
+
+export function microsecondsToBpm(microsecondsPerQuarter: number): number {
+  return 60_000_000 / microsecondsPerQuarter
+}
+
+/**
+ * Encode a MIDI file. Events in each track are sorted by tick, with note-offs
+ * placed before note-ons on the same tick so repeated notes never overlap.
+ */
+export function writeSmf(file: SmfFile): Uint8Array {
+  const bytes: number[] = []
+
+  writeAscii(bytes, 'MThd')
+  writeUint32(bytes, 6)
+  writeUint16(bytes, file.format)
+  writeUint16(bytes, file.tracks.length)
+  writeUint16(bytes, file.ppq)
+
+  for (const track of file.tracks) {
+    const data = encodeTrack(track)
+    writeAscii(bytes, 'MTrk')
+    writeUint32(bytes, data.length)
+    for (const byte of data) bytes.push(byte)
+  }
+
+  return new Uint8Array(bytes)
+}
+
+/**
+ * Decode a MIDI file (format 0 or 1). Events the app has no use for
+ * (sysex, aftertouch, pitch bend, other meta events) are skipped.
+ * Note-ons with velocity 0 are reported as note-offs.
+ */
+export function parseSmf(data: Uint8Array): SmfFile {
+  const reader = new ByteReader(data)
+
+  if (reader.readAscii(4) !== 'MThd') {
+    throw new Error('Not a MIDI file')
+  }
+  const headerLength = reader.readUint32()
+  const format = reader.readUint16()
+  const trackCount = reader.readUint16()
+  const division = reader.readUint16()
+  reader.skip(headerLength - 6)
+
+  if (format !== 0 && format !== 1) {
+    throw new Error(`Unsupported MIDI file format ${format}`)
+  }
+  if (division & 0x8000) {
+    throw new Error('SMPTE time division is not supported')
+  }
+
+  const tracks: SmfTrack[] = []
+  while (tracks.length < trackCount && !reader.atEnd()) {
+    const chunkType = reader.readAscii(4)
+    const length = reader.readUint32()
+    if (chunkType !== 'MTrk') {
+      reader.skip(length)
+      continue
+    }
+    tracks.push(decodeTrack(new ByteReader(reader.readBytes(length))))
+  }
+
+  return { format: format as 0 | 1, ppq: division, tracks }
+}
+
+function decodeTrack(reader: ByteReader): SmfTrack {
+  const events: SmfEvent[] = []
+  let tick = 0
+  let runningStatus = 0
+
+  while (!reader.atEnd()) {
+    tick += reader.readVarLength()
+
+    let status = reader.peek()
+    if (status & 0x80) {
+      reader.skip(1)
+    } else if (runningStatus) {
+      // Running status: reuse the previous channel status byte
+      status = runningStatus
+    } else {
+      throw new Error('Malformed MIDI track')
+    }
+
+    // Sysex and meta events cancel running status
+    if (status >= 0xf0) runningStatus = 0
+
+    if (status === 0xff) {
+      const metaType = reader.readUint8()
+      const length = reader.readVarLength()
+      const payload = reader.readBytes(length)
+      if (metaType === 0x2f) break
+      if (metaType === 0x51 && length === 3) {
+        events.push({ tick, type: 'tempo', microsecondsPerQuarter: (payload[0]! << 16) | (payload[1]! << 8) | payload[2]! })
+      } else if (metaType === 0x58 && length >= 2) {
+        events.push({ tick, type: 'timeSignature', numerator: payload[0]!, denominator: Math.pow(2, payload[1]!) })
+      } else if (metaType === 0x03) {
+        events.push({ tick, type: 'trackName', text: new TextDecoder().decode(payload) })
+      }
+      continue
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.readVarLength())
+      continue
+    }
+
+    runningStatus = status
+    const channel = status & 0x0f
+    switch (status & 0xf0) {
+      case 0x80: {
+        const note = reader.readUint8()
+        const velocity = reader.readUint8()
+        events.push({ tick, type: 'noteOff', channel, note, velocity })
+        break
+      }
+      case 0x90: {
+        const note = reader.readUint8()
+        const velocity = reader.readUint8()
+        events.push({ tick, type: velocity === 0 ? 'noteOff' : 'noteOn', channel, note, velocity })
+        break
+      }
+      case 0xb0: {
+        const controller = reader.readUint8()
+        const value = reader.readUint8()
+        events.push({ tick, type: 'controlChange', channel, controller, value })
+        break
+      }
+      case 0xc0:
+        events.push({ tick, type: 'programChange', channel, program: reader.readUint8() })
+        break
+      case 0xd0:
+        reader.skip(1) // channel pressure
+        break
+      default:
+        reader.skip(2) // polyphonic aftertouch, pitch bend
+    }
+  }
+
+  return { events }
+}
+
+class ByteReader {
+  private data: Uint8Array
+  private offset = 0
+
+  constructor(data: Uint8Array) {
+    this.data = data
+  }
+
+  atEnd(): boolean {
+    return this.offset >= this.data.length
+  }
+
+  peek(): number {
+    return this.ensure(1)[this.offset]!
+  }
+
+  skip(length: number): void {
+    this.ensure(length)
+    this.offset += length
+  }
+
+  readUint8(): number {
+    const value = this.peek()
+    this.offset += 1
+    return value
+  }
+
+  readUint16(): number {
+    return (this.readUint8() << 8) | this.readUint8()
+  }
+
+  readUint32(): number {
+    return ((this.readUint16() << 16) | this.readUint16()) >>> 0
+  }
+
+  readVarLength(): number {
+    let value = 0
+    for (let i = 0; i < 4; i++) {
+      const byte = this.readUint8()
+      value = value * 128 + (byte & 0x7f)
+      if (!(byte & 0x80)) break
+    }
+    return value
+  }
+
+  readBytes(length: number): Uint8Array {
+    this.ensure(length)
+    const bytes = this.data.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return bytes
+  }
+
+  readAscii(length: number): string {
+    return String.fromCharCode(...this.readBytes(length))
+  }
+
+  private ensure(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Unexpected end of MIDI file')
+    }
+    return this.data
+  }
+}
+
+function encodeTrack(track: SmfTrack): number[] {
+  const data: number[] = []
+  const events = track.events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.tick - b.event.tick || eventOrder(a.event) - eventOrder(b.event) || a.index - b.index)
+    .map(({ event }) => event)
+
+  let lastTick = 0
+  for (const event of events) {
+    const tick = Math.max(lastTick, Math.round(event.tick))
+    writeVarLength(data, tick - lastTick)
+    lastTick = tick
+
+    switch (event.type) {
+      case 'noteOn':
+        data.push(0x90 | (event.channel & 0x0f), event.note & 0x7f, clamp7(event.velocity))
+        break
+      case 'noteOff':
+        data.push(0x80 | (event.channel & 0x0f), event.note & 0x7f, clamp7(event.velocity))
+        break
+      case 'programChange':
+        data.push(0xc0 | (event.channel & 0x0f), event.program & 0x7f)
+        break
+      case 'controlChange':
+        data.push(0xb0 | (event.channel & 0x0f), event.controller & 0x7f, clamp7(event.value))
+        break
+      case 'tempo':
+        data.push(0xff, 0x51, 0x03)
+        data.push((event.microsecondsPerQuarter >> 16) & 0xff)
+        data.push((event.microsecondsPerQuarter >> 8) & 0xff)
+        data.push(event.microsecondsPerQuarter & 0xff)
+        break
+      case 'timeSignature':
+        // 24 MIDI clocks per metronome click, 8 32nd notes per quarter
+        data.push(0xff, 0x58, 0x04, event.numerator, Math.log2(event.denominator), 24, 8)
+        break
+      case 'trackName': {
+        const text = Array.from(new TextEncoder().encode(event.text))
+        data.push(0xff, 0x03)
+        writeVarLength(data, text.length)
+        for (const byte of text) data.push(byte)
+        break
+      }
+    }
+  }
+
+  // End of track
+  writeVarLength(data, 0)
+  data.push(0xff, 0x2f, 0x00)
+  return data
+}
+
+// Meta and setup events first, then note-offs, then note-ons
+function eventOrder(event: SmfEvent): number {
+  switch (event.type) {
+    case 'noteOff':
+      return 2
+    case 'noteOn':
+      return 3
+    default:
+      return event.type === 'programChange' || event.type === 'controlChange' ? 1 : 0
+  }
+}
+
+function clamp7(value: number): number {
+  return Math.max(0, Math.min(127, Math.round(value)))
+}
+
+function writeVarLength(bytes: number[], value: number): void {
+  // 7 bits per byte, most significant first, continuation bit on all but the last
+  const groups = [value & 0x7f]
+  let remaining = Math.floor(value / 128)
+  while (remaining > 0) {
+    groups.push((remaining & 0x7f) | 0x80)
+    remaining = Math.floor(remaining / 128)
+  }
+  for (let i = groups.length - 1; i >= 0; i--) {
+    bytes.push(groups[i]!)
+  }
+}
+
+function writeAscii(bytes: number[], value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    bytes.push(value.charCodeAt(i))
+  }
+}
+
+function writeUint16(bytes: number[], value: number): void {
+  bytes.push((value >> 8) & 0xff, value & 0xff)
+}
+
+function writeUint32(bytes: number[], value: number): void {
+  bytes.push((value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff)
+}
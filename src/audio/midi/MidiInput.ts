@@ -0,0 +1,193 @@
+// Web MIDI input: device selection, hot-plug and note/sustain parsing
+
+export interface MidiInputDevice {
+  id: string
+  name: string
+  manufacturer: string
+  connected: boolean
+}
+
+export interface MidiNoteMessage {
+  note: number // MIDI note number
+  velocity: number // 0-1
+  channel: number // zero-based
+}
+
+export type MidiTransportMessage = 'start' | 'continue' | 'stop'
+
+export interface MidiInputHandlers {
+  onNoteOn?: (message: MidiNoteMessage) => void
+  onNoteOff?: (message: MidiNoteMessage) => void
+  onClock?: (timestamp: number) => void // milliseconds, performance.now() clock
+  onTransport?: (message: MidiTransportMessage) => void
+  onDevicesChanged?: (devices: MidiInputDevice[]) => void
+}
+
+// Injected so tests can supply a mocked MIDIAccess
+export type MidiAccessProvider = () => Promise<MIDIAccess>
+
+const SUSTAIN_CONTROLLER = 64
+
+// System real-time messages
+const TIMING_CLOCK = 0xf8
+const TRANSPORT_MESSAGES: Record<number, MidiTransportMessage> = {
+  0xfa: 'start',
+  0xfb: 'continue',
+  0xfc: 'stop',
+}
+
+function defaultAccessProvider(): Promise<MIDIAccess> {
+  return navigator.requestMIDIAccess()
+}
+
+export class MidiInput {
+  private requestAccess: MidiAccessProvider
+  private access: MIDIAccess | null = null
+  private selectedId: string | null = null // null listens to every input
+  private handlers: MidiInputHandlers = {}
+
+  // Sustain pedal: note-offs received while it is down are held until it lifts
+  private sustainDown = false
+  private sustainedNotes: Map<string, MidiNoteMessage> = new Map()
+
+  constructor(requestAccess: MidiAccessProvider = defaultAccessProvider) {
+    this.requestAccess = requestAccess
+  }
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator
+  }
+
+  setHandlers(handlers: MidiInputHandlers): void {
+    this.handlers = handlers
+  }
+
+  async enable(): Promise<MidiInputDevice[]> {
+    if (!this.access) {
+      this.access = await this.requestAccess()
+      this.access.onstatechange = () => this.handleStateChange()
+    }
+    this.attachInputs()
+    return this.getDevices()
+  }
+
+  disable(): void {
+    if (!this.access) return
+    for (const input of this.access.inputs.values()) {
+      input.onmidimessage = null
+    }
+    this.access.onstatechange = null
+    this.access = null
+    this.releaseSustain()
+  }
+
+  isEnabled(): boolean {
+    return this.access !== null
+  }
+
+  getDevices(): MidiInputDevice[] {
+    if (!this.access) return []
+    return Array.from(this.access.inputs.values()).map((input) => ({
+      id: input.id,
+      name: input.name || 'MIDI Input',
+      manufacturer: input.manufacturer || '',
+      connected: input.state === 'connected',
+    }))
+  }
+
+  // Pass null to listen to every connected input
+  selectInput(id: string | null): void {
+    this.selectedId = id
+    this.releaseSustain()
+    this.attachInputs()
+  }
+
+  getSelectedInput(): string | null {
+    return this.selectedId
+  }
+
+  // Feed a raw MIDI message, as delivered by a MIDIInput
+  handleMessage(data: ArrayLike<number>, timestamp: number = performance.now()): void {
+    const status = data[0] ?? 0
+    if (status === TIMING_CLOCK) {
+      this.handlers.onClock?.(timestamp)
+      return
+    }
+    const transport = TRANSPORT_MESSAGES[status]
+    if (transport) {
+      this.handlers.onTransport?.(transport)
+      return
+    }
+
+    const type = status & 0xf0
+    const channel = status & 0x0f
+    const data1 = data[1] ?? 0
+    const data2 = data[2] ?? 0
+
+    if (type === 0x90 && data2 > 0) {
+      this.noteOn({ note: data1, velocity: data2 / 127, channel })
+    } else if (type === 0x80 || type === 0x90) {
+      this.noteOff({ note: data1, velocity: 0, channel })
+    } else if (type === 0xb0 && data1 === SUSTAIN_CONTROLLER) {
+      this.setSustain(data2 >= 64)
+    }
+  }
+
+  private noteOn(message: MidiNoteMessage): void {
+    // Re-striking a sustained note ends the held one first
+    const key = this.noteKey(message)
+    const sustained = this.sustainedNotes.get(key)
+    if (sustained) {
+      this.sustainedNotes.delete(key)
+      this.handlers.onNoteOff?.(sustained)
+    }
+    this.handlers.onNoteOn?.(message)
+  }
+
+  private noteOff(message: MidiNoteMessage): void {
+    if (this.sustainDown) {
+      this.sustainedNotes.set(this.noteKey(message), message)
+      return
+    }
+    this.handlers.onNoteOff?.(message)
+  }
+
+  private setSustain(down: boolean): void {
+    this.sustainDown = down
+    if (!down) this.releaseSustain()
+  }
+
+  private releaseSustain(): void {
+    this.sustainDown = false
+    const held = Array.from(this.sustainedNotes.values())
+    this.sustainedNotes.clear()
+    for (const message of held) {
+      this.handlers.onNoteOff?.(message)
+    }
+  }
+
+  private noteKey(message: MidiNoteMessage): string {
+    return `${message.channel}:${message.note}`
+  }
+
+  private attachInputs(): void {
+    if (!this.access) return
+    for (const input of this.access.inputs.values()) {
+      const listening = this.selectedId === null || input.id === this.selectedId
+      input.onmidimessage = listening
+        ? (event: MIDIMessageEvent) => {
+            if (event.data) this.handleMessage(event.data, event.timeStamp)
+          }
+        : null
+    }
+  }
+
+  // Devices plugged in or out: re-attach (a reconnected selected device resumes) and notify
+  private handleStateChange(): void {
+    this.attachInputs()
+    this.handlers.onDevicesChanged?.(this.getDevices())
+  }
+}
+
+export const midiInput = new MidiInput()
+export default midiInput
@@ -0,0 +1,248 @@
+import type { DrumSound, InstrumentType, LoopLayer, MidiEvent } from '@/types'
+import { GM_DRUM_NOTES, gmNoteToDrum, midiToNote, noteToMidi } from '@/utils/notes'
+import { bpmToMicroseconds, microsecondsToBpm, type SmfEvent, type SmfFile, type SmfTrack } from './MidiFile'
+
+export type MidiExportSource = Pick<LoopLayer, 'name' | 'events' | 'instrumentId' | 'cropStart' | 'cropEnd'>
+
+// MIDI channel 10 (zero-based 9) is reserved for percussion
+export const DRUM_CHANNEL = 9
+
+// Closest General MIDI program for each synth voice
+export const INSTRUMENT_PROGRAMS: Record<Exclude<InstrumentType, 'drums'>, number> = {
+  piano: 0, // Acoustic Grand Piano
+  synth: 81, // Lead 2 (sawtooth)
+  pluck: 45, // Pizzicato Strings
+  fm: 5, // Electric Piano 2
+  am: 89, // Pad 2 (warm)
+  membrane: 117, // Melodic Tom
+}
+
+interface Note {
+  start: number
+  end: number
+  pitch: number
+  velocity: number
+}
+
+/**
+ * Build a Type 1 MIDI file with a conductor track and one track per layer.
+ * Layers shorter than totalTicks are repeated, matching how they loop in playback.
+ */
+export function layersToSmf(
+  layers: MidiExportSource[],
+  options: { bpm: number; ppq: number; totalTicks: number }
+): SmfFile {
+  const { bpm, ppq, totalTicks } = options
+
+  const conductor: SmfTrack = {
+    events: [
+      { tick: 0, type: 'trackName', text: 'makeloops' },
+      { tick: 0, type: 'timeSignature', numerator: 4, denominator: 4 },
+      { tick: 0, type: 'tempo', microsecondsPerQuarter: bpmToMicroseconds(bpm) },
+    ],
+  }
+
+  let nextMelodicChannel = 0
+  const tracks = layers.map((layer) => {
+    const isDrums = layer.instrumentId === 'drums'
+    let channel = DRUM_CHANNEL
+    if (!isDrums) {
+      channel = nextMelodicChannel
+      nextMelodicChannel = (nextMelodicChannel + 1) % 16
+      if (nextMelodicChannel === DRUM_CHANNEL) nextMelodicChannel++
+    }
+    return layerToTrack(layer, channel, totalTicks, ppq)
+  })
+
+  return { format: 1, ppq, tracks: [conductor, ...tracks] }
+}
+
+function layerToTrack(layer: MidiExportSource, channel: number, totalTicks: number, ppq: number): SmfTrack {
+  const events: SmfEvent[] = [{ tick: 0, type: 'trackName', text: layer.name }]
+  if (layer.instrumentId !== 'drums') {
+    events.push({ tick: 0, type: 'programChange', channel, program: INSTRUMENT_PROGRAMS[layer.instrumentId] })
+  }
+
+  const loopLength = layer.cropEnd - layer.cropStart
+  if (loopLength <= 0) return { events }
+
+  // Drum hits have no note-off; give them a short fixed length (a 16th, or less at the loop end)
+  const drumLength = ppq / 4
+  const notes = collectNotes(layer, loopLength, drumLength)
+
+  for (let offset = 0; offset < totalTicks; offset += loopLength) {
+    const repeatEnd = Math.min(totalTicks, offset + loopLength)
+    for (const note of notes) {
+      const start = note.start + offset
+      if (start >= repeatEnd) continue
+      const end = Math.max(start + 1, Math.min(note.end + offset, repeatEnd))
+      events.push({ tick: start, type: 'noteOn', channel, note: note.pitch, velocity: Math.max(1, note.velocity * 127) })
+      events.push({ tick: end, type: 'noteOff', channel, note: note.pitch, velocity: 0 })
+    }
+  }
+
+  return { events }
+}
+
+// Pair note-ons with note-offs inside the crop window, in loop-relative ticks
+function collectNotes(layer: MidiExportSource, loopLength: number, drumLength: number): Note[] {
+  const isDrums = layer.instrumentId === 'drums'
+  const notes: Note[] = []
+  const open: Map<string, Note[]> = new Map()
+
+  const events = layer.events
+    .filter((e) => e.time >= layer.cropStart && e.time < layer.cropEnd)
+    .sort((a, b) => a.time - b.time)
+
+  for (const event of events) {
+    const pitch = isDrums ? GM_DRUM_NOTES[event.note as DrumSound] : noteToMidi(event.note)
+    if (pitch === undefined || pitch === null) continue
+
+    const time = event.time - layer.cropStart
+    if (isDrums) {
+      if (event.type === 'noteOn') {
+        notes.push({ start: time, end: Math.min(loopLength, time + drumLength), pitch, velocity: event.velocity })
+      }
+      continue
+    }
+
+    if (event.type === 'noteOn') {
+      // Unreleased notes end at the loop end, like LoopPlayer's release
+      const note: Note = { start: time, end: loopLength, pitch, velocity: event.velocity }
+      notes.push(note)
+      open.set(event.note, [...(open.get(event.note) ?? []), note])
+    } else {
+      const stack = open.get(event.note)
+      const note = stack?.shift()
+      if (note) note.end = time
+    }
+  }
+
+  return notes
+}
+
+export interface ImportedNoteEvent {
+  type: 'noteOn' | 'noteOff'
+  pitch: number
+  velocity: number // 0-1
+  time: number // ticks at the app's resolution
+}
+
+export interface ImportedTrack {
+  name: string
+  channel: number
+  program: number | null
+  suggestedInstrument: InstrumentType
+  events: ImportedNoteEvent[]
+  duration: number // rounded up to whole bars
+}
+
+export interface MidiImportResult {
+  tracks: ImportedTrack[]
+  bpm: number | null // from the first tempo event, if any
+}
+
+/**
+ * Split a MIDI file into one importable track per (track, channel) pair,
+ * rescaling ticks from the file's PPQ to the app's.
+ */
+export function smfToImport(file: SmfFile, options: { ppq: number; measureTicks: number }): MidiImportResult {
+  const { ppq, measureTicks } = options
+  const scale = ppq / file.ppq
+  let tempo: number | null = null
+  const tracks: ImportedTrack[] = []
+
+  file.tracks.forEach((track, trackIndex) => {
+    const trackName = track.events.find((e) => e.type === 'trackName')
+    const baseName = trackName?.type === 'trackName' && trackName.text.trim()
+      ? trackName.text.trim()
+      : `Track ${trackIndex + 1}`
+
+    const byChannel: Map<number, { program: number | null; events: ImportedNoteEvent[] }> = new Map()
+    for (const event of track.events) {
+      if (event.type === 'tempo' && tempo === null) {
+        tempo = event.microsecondsPerQuarter
+      }
+      if (event.type !== 'noteOn' && event.type !== 'noteOff' && event.type !== 'programChange') continue
+
+      const group = byChannel.get(event.channel) ?? { program: null, events: [] }
+      byChannel.set(event.channel, group)
+
+      if (event.type === 'programChange') {
+        group.program ??= event.program
+      } else {
+        group.events.push({
+          type: event.type,
+          pitch: event.note,
+          velocity: event.velocity / 127,
+          time: Math.round(event.tick * scale),
+        })
+      }
+    }
+
+    const noteGroups = [...byChannel.entries()].filter(([, group]) => group.events.length > 0)
+    for (const [channel, group] of noteGroups) {
+      const lastTick = Math.max(...group.events.map((e) => e.time))
+      const bars = Math.max(1, Math.ceil(lastTick / measureTicks))
+      tracks.push({
+        name: noteGroups.length > 1 ? `${baseName} (Ch ${channel + 1})` : baseName,
+        channel,
+        program: group.program,
+        suggestedInstrument: channel === DRUM_CHANNEL ? 'drums' : programToInstrument(group.program),
+        events: group.events,
+        duration: bars * measureTicks,
+      })
+    }
+  })
+
+  return { tracks, bpm: tempo === null ? null : microsecondsToBpm(tempo) }
+}
+
+/**
+ * Convert imported notes to layer events for the chosen instrument.
+ * Drum layers use kit piece names; percussion notes with no close match are dropped.
+ */
+export function importedTrackToEvents(track: ImportedTrack, instrumentId: InstrumentType): MidiEvent[] {
+  const events: MidiEvent[] = []
+  for (const event of track.events) {
+    const note = instrumentId === 'drums' ? gmNoteToDrum(event.pitch) : midiToNote(event.pitch)
+    if (note === null) continue
+    // Drum layers only schedule hits
+    if (instrumentId === 'drums' && event.type === 'noteOff') continue
+    events.push({ type: event.type, note, velocity: event.velocity, time: event.time })
+  }
+  return events.sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Pick the closest synth voice for a General MIDI program number
+ */
+export function programToInstrument(program: number | null): Exclude<InstrumentType, 'drums'> {
+  if (program === null) return 'piano'
+
+  const exact = (Object.keys(INSTRUMENT_PROGRAMS) as Exclude<InstrumentType, 'drums'>[]).find(
+    (type) => INSTRUMENT_PROGRAMS[type] === program
+  )
+  if (exact) return exact
+
+  // Fall back to the GM instrument family (8 programs each)
+  const familyInstruments: Exclude<InstrumentType, 'drums'>[] = [
+    'piano', // piano
+    'pluck', // chromatic percussion
+    'am', // organ
+    'pluck', // guitar
+    'synth', // bass
+    'am', // strings
+    'am', // ensemble
+    'fm', // brass
+    'fm', // reed
+    'fm', // pipe
+    'synth', // synth lead
+    'am', // synth pad
+    'fm', // synth effects
+    'pluck', // ethnic
+    'membrane', // percussive
+    'synth', // sound effects
+  ]
+  return familyInstruments[Math.floor(program / 8)] ?? 'piano'
+}
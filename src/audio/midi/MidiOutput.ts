@@ -0,0 +1,90 @@
+// Web MIDI output: device list, hot-plug and sends timed on the audio clock
+
+import * as Tone from 'tone'
+import type { MidiAccessProvider, MidiInputDevice } from './MidiInput'
+
+export type MidiOutputDevice = MidiInputDevice
+
+function defaultAccessProvider(): Promise<MIDIAccess> {
+  return navigator.requestMIDIAccess()
+}
+
+const ALL_NOTES_OFF_CONTROLLER = 123
+
+export class MidiOutput {
+  private requestAccess: MidiAccessProvider
+  private access: MIDIAccess | null = null
+  private onDevicesChanged: ((devices: MidiOutputDevice[]) => void) | null = null
+
+  constructor(requestAccess: MidiAccessProvider = defaultAccessProvider) {
+    this.requestAccess = requestAccess
+  }
+
+  async enable(): Promise<MidiOutputDevice[]> {
+    if (!this.access) {
+      this.access = await this.requestAccess()
+      this.access.onstatechange = () => this.onDevicesChanged?.(this.getDevices())
+    }
+    return this.getDevices()
+  }
+
+  disable(): void {
+    if (!this.access) return
+    this.access.onstatechange = null
+    this.access = null
+  }
+
+  isEnabled(): boolean {
+    return this.access !== null
+  }
+
+  setOnDevicesChanged(callback: ((devices: MidiOutputDevice[]) => void) | null): void {
+    this.onDevicesChanged = callback
+  }
+
+  getDevices(): MidiOutputDevice[] {
+    if (!this.access) return []
+    return Array.from(this.access.outputs.values()).map((output) => ({
+      id: output.id,
+      name: output.name || 'MIDI Output',
+      manufacturer: output.manufacturer || '',
+      connected: output.state === 'connected',
+    }))
+  }
+
+  /**
+   * Send a message to an output. `time` is an audio context time (as passed to
+   * Tone callbacks), turned into a Web MIDI timestamp so the message leaves in
+   * step with the audio scheduled for it. Unknown or unplugged outputs are ignored.
+   */
+  send(outputId: string, data: number[], time?: number): void {
+    const output = this.access?.outputs.get(outputId)
+    if (!output || output.state !== 'connected') return
+    try {
+      output.send(data, time === undefined ? undefined : this.toTimestamp(time))
+    } catch (e) {
+      console.error('Failed to send MIDI message:', e)
+    }
+  }
+
+  noteOn(outputId: string, channel: number, note: number, velocity: number, time?: number): void {
+    const value = Math.min(127, Math.max(1, Math.round(velocity * 127)))
+    this.send(outputId, [0x90 | channel, note, value], time)
+  }
+
+  noteOff(outputId: string, channel: number, note: number, time?: number): void {
+    this.send(outputId, [0x80 | channel, note, 0], time)
+  }
+
+  allNotesOff(outputId: string, channel: number): void {
+    this.send(outputId, [0xb0 | channel, ALL_NOTES_OFF_CONTROLLER, 0])
+  }
+
+  private toTimestamp(time: number): number {
+    const ahead = Math.max(0, time - Tone.getContext().immediate())
+    return performance.now() + ahead * 1000
+  }
+}
+
+export const midiOutput = new MidiOutput()
+export default midiOutput
@@ -0,0 +1,31 @@
+import { onUnmounted } from 'vue'
+import { useHistoryStore } from '@/stores/historyStore'
+
+/**
+ * Groups every change made during a pointer drag (a fader move, say) into
+ * one history entry. Call begin from pointerdown; the group closes on release.
+ */
+export function useHistoryGesture() {
+  const history = useHistoryStore()
+  let active = false
+
+  function end() {
+    if (!active) return
+    active = false
+    window.removeEventListener('pointerup', end)
+    window.removeEventListener('pointercancel', end)
+    history.endGroup()
+  }
+
+  function begin(label: string) {
+    if (active) return
+    active = true
+    history.beginGroup(label)
+    window.addEventListener('pointerup', end)
+    window.addEventListener('pointercancel', end)
+  }
+
+  onUnmounted(end)
+
+  return { begin }
+}
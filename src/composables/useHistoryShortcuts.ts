@@ -0,0 +1,34 @@
+import { onMounted, onUnmounted } from 'vue'
+import { useHistoryStore } from '@/stores/historyStore'
+
+// Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes; Cmd stands in for Ctrl on macOS
+export function useHistoryShortcuts() {
+  const history = useHistoryStore()
+
+  function handleKeyDown(e: KeyboardEvent) {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+    // Text fields keep their own undo
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+
+    const key = e.key.toLowerCase()
+    if (key === 'z') {
+      e.preventDefault()
+      if (e.shiftKey) {
+        history.redo()
+      } else {
+        history.undo()
+      }
+    } else if (key === 'y') {
+      e.preventDefault()
+      history.redo()
+    }
+  }
+
+  onMounted(() => {
+    window.addEventListener('keydown', handleKeyDown)
+  })
+
+  onUnmounted(() => {
+    window.removeEventListener('keydown', handleKeyDown)
+  })
+}
@@ -59,6 +59,9 @@ export function useKeyboard(options: {
       return
     }
 
+    // Shortcuts such as Ctrl+Z are not notes
+    if (e.ctrlKey || e.metaKey) return
+
     const key = e.key.toLowerCase()
 
     // Prevent repeat events
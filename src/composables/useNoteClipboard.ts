@@ -0,0 +1,33 @@
+import { computed, shallowRef } from 'vue'
+import type { LoopNote } from '@/types'
+
+// Shared by every piano roll, so notes can be copied from one layer to another
+const clipboard = shallowRef<{ notes: LoopNote[]; span: number } | null>(null)
+
+export function useNoteClipboard() {
+  const canPaste = computed(() => !!clipboard.value?.notes.length)
+
+  /**
+   * Keeps the notes relative to the earliest one and returns where that block
+   * ends. The span rounds up to whole `stepTicks` so repeated pastes tile.
+   */
+  function copy(notes: LoopNote[], stepTicks: number): number | null {
+    if (notes.length === 0) return null
+    const start = Math.min(...notes.map((n) => n.time))
+    const end = Math.max(...notes.map((n) => n.time + n.duration))
+    const span = stepTicks > 0 ? Math.ceil((end - start) / stepTicks) * stepTicks : end - start
+    clipboard.value = { notes: notes.map((n) => ({ ...n, time: n.time - start })), span }
+    return start + span
+  }
+
+  // Copies placed at `time`, with the span they take up
+  function paste(time: number): { notes: LoopNote[]; span: number } | null {
+    if (!clipboard.value) return null
+    return {
+      notes: clipboard.value.notes.map((n) => ({ ...n, time: n.time + time })),
+      span: clipboard.value.span,
+    }
+  }
+
+  return { canPaste, copy, paste }
+}
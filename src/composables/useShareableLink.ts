@@ -1,5 +1,5 @@
 import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string'
-import type { LoopLayer, GridPattern, GridMode, ScaleName, RootNote, InstrumentType } from '@/types'
+import type { ArrangementState, AuxBusSettings, LoopLayer, MasterSettings, GridPattern, GridMode, ScaleName, RootNote, InstrumentType } from '@/types'
 
 // Version for future compatibility
 const SHARE_VERSION = 1
@@ -8,6 +8,9 @@ interface ShareableState {
   v: number
   bpm: number
   layers: LoopLayer[]
+  master?: MasterSettings
+  auxBuses?: AuxBusSettings[]
+  arrangement?: ArrangementState
   grid?: {
     mode: GridMode
     pattern: GridPattern
@@ -24,18 +27,42 @@ export function useShareableLink() {
   function generateShareLink(
     bpm: number,
     layers: LoopLayer[],
-    gridState?: ShareableState['grid']
+    gridState?: ShareableState['grid'],
+    master?: MasterSettings,
+    auxBuses?: AuxBusSettings[],
+    arrangement?: ArrangementState
   ): string {
     const state: ShareableState = {
       v: SHARE_VERSION,
       bpm,
-      layers,
+      // Audio clips are far too large for a URL; they are kept in saved sessions only
+      layers: layers.filter((layer) => !layer.clip),
     }
 
     if (gridState) {
       state.grid = gridState
     }
 
+    if (master) {
+      state.master = master
+    }
+
+    if (auxBuses) {
+      state.auxBuses = auxBuses
+    }
+
+    // Clip layers are left out above, so drop them from the sections too
+    if (arrangement?.sections.length) {
+      const shared = new Set(state.layers.map((layer) => layer.id))
+      state.arrangement = {
+        ...arrangement,
+        sections: arrangement.sections.map((section) => ({
+          ...section,
+          layerIds: section.layerIds.filter((id) => shared.has(id)),
+        })),
+      }
+    }
+
     const json = JSON.stringify(state)
     const compressed = compressToEncodedURIComponent(json)
 
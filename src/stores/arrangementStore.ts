@@ -0,0 +1,281 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import * as Tone from 'tone'
+import type { ArrangementSection, ArrangementState, PlaybackWindow } from '@/types'
+import { loopPlayer } from '@/audio/looper/LoopPlayer'
+import { LoopQuantizer } from '@/audio/looper/LoopQuantizer'
+import { ArrangementTimeline } from '@/audio/looper/ArrangementTimeline'
+import audioEngine from '@/audio/AudioEngine'
+import { useAudioStore } from './audioStore'
+import { useLooperStore } from './looperStore'
+import { detachLayer } from '@/utils/layerMembership'
+
+function generateSectionId(): string {
+  return `section-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Windows cut off at `ticks`, dropping any that had not started yet
+function windowsBefore(windows: Map<string, PlaybackWindow[]>, ticks: number): Map<string, PlaybackWindow[]> {
+  const cut: Map<string, PlaybackWindow[]> = new Map()
+  windows.forEach((layerWindows, layerId) => {
+    const kept = layerWindows
+      .filter((window) => window.start < ticks)
+      .map((window) => ({ start: window.start, end: Math.min(window.end, ticks) }))
+    if (kept.length) cut.set(layerId, kept)
+  })
+  return cut
+}
+
+// A layer playing on both sides of a switch keeps looping instead of restarting
+function mergeWindows(
+  earlier: Map<string, PlaybackWindow[]>,
+  later: Map<string, PlaybackWindow[]>
+): Map<string, PlaybackWindow[]> {
+  const merged: Map<string, PlaybackWindow[]> = new Map()
+  earlier.forEach((layerWindows, layerId) => merged.set(layerId, layerWindows.map((w) => ({ ...w }))))
+  later.forEach((layerWindows, layerId) => {
+    const combined = merged.get(layerId) ?? []
+    for (const window of layerWindows) {
+      const previous = combined[combined.length - 1]
+      if (previous && previous.end === window.start) {
+        previous.end = window.end
+      } else {
+        combined.push({ ...window })
+      }
+    }
+    merged.set(layerId, combined)
+  })
+  return merged
+}
+
+export const useArrangementStore = defineStore('arrangement', () => {
+  const audioStore = useAudioStore()
+  const looperStore = useLooperStore()
+
+  const sections = ref<ArrangementSection[]>([])
+  const enabled = ref(false)
+  const currentSectionIndex = ref<number | null>(null) // while the transport runs
+  const queuedSectionIndex = ref<number | null>(null) // waiting for the next bar, or for playback
+
+  // Where the current pass through the arrangement began
+  let origin = { startTicks: 0, fromIndex: 0 }
+  // What was playing before a jump, cut off at the bar it switched on
+  let carried: Map<string, PlaybackWindow[]> = new Map()
+  let eventIds: number[] = []
+
+  const isActive = computed(() => enabled.value && sections.value.length > 0)
+  const totalBars = computed(() => sections.value.reduce((total, section) => total + section.bars, 0))
+
+  function currentWindows(): Map<string, PlaybackWindow[]> {
+    return mergeWindows(carried, ArrangementTimeline.layerWindows(sections.value, origin.startTicks, origin.fromIndex))
+  }
+
+  function clearEvents() {
+    eventIds.forEach((eventId) => Tone.getTransport().clear(eventId))
+    eventIds = []
+  }
+
+  /**
+   * Push the arrangement to the player and reschedule every layer against it.
+   * Windows that already started keep their loop position, so edits during
+   * playback do not jump.
+   */
+  function apply() {
+    clearEvents()
+    if (!isActive.value) {
+      loopPlayer.setArrangement(null)
+      currentSectionIndex.value = null
+      queuedSectionIndex.value = null
+      if (audioEngine.isInitialized()) looperStore.rescheduleAllLayers()
+      return
+    }
+
+    loopPlayer.setArrangement(currentWindows())
+    if (!audioEngine.isInitialized()) return
+    looperStore.rescheduleAllLayers()
+
+    const transport = Tone.getTransport()
+    const starts = ArrangementTimeline.sectionStarts(sections.value, origin.startTicks, origin.fromIndex)
+    starts.forEach((start, i) => {
+      const index = origin.fromIndex + i
+      if (start <= transport.ticks && !audioStore.isStopped) {
+        currentSectionIndex.value = index
+      }
+      const eventId = transport.schedule((time) => {
+        Tone.getDraw().schedule(() => {
+          currentSectionIndex.value = index
+          if (queuedSectionIndex.value === index) queuedSectionIndex.value = null
+        }, time)
+      }, `${start}i`)
+      eventIds.push(eventId)
+    })
+
+    // Stop at the end rather than sitting in silence; a take in progress is left to finish
+    const end = origin.startTicks + ArrangementTimeline.totalTicks(sections.value.slice(origin.fromIndex))
+    const endId = transport.schedule((time) => {
+      Tone.getDraw().schedule(() => {
+        if (audioStore.isPlaying) audioStore.stop()
+      }, time)
+    }, `${end}i`)
+    eventIds.push(endId)
+  }
+
+  function resetOrigin(fromIndex: number = 0) {
+    origin = { startTicks: 0, fromIndex }
+    carried = new Map()
+    currentSectionIndex.value = null
+    queuedSectionIndex.value = fromIndex > 0 ? fromIndex : null
+  }
+
+  function addSection(): ArrangementSection {
+    const measureTicks = audioEngine.getMeasureTicks()
+    const section: ArrangementSection = {
+      id: generateSectionId(),
+      name: `Section ${sections.value.length + 1}`,
+      layerIds: looperStore.activeLayers.map((layer) => layer.id),
+      bars: looperStore.loopDuration ? Math.max(1, Math.ceil(looperStore.loopDuration / measureTicks)) : 4,
+    }
+    sections.value.push(section)
+    return section
+  }
+
+  function updateSection(sectionId: string, changes: Partial<Omit<ArrangementSection, 'id'>>) {
+    const section = sections.value.find((s) => s.id === sectionId)
+    if (!section) return
+    Object.assign(section, changes)
+    section.bars = Math.max(1, Math.round(section.bars))
+  }
+
+  function toggleSectionLayer(sectionId: string, layerId: string) {
+    const section = sections.value.find((s) => s.id === sectionId)
+    if (!section) return
+    section.layerIds = section.layerIds.includes(layerId)
+      ? section.layerIds.filter((id) => id !== layerId)
+      : [...section.layerIds, layerId]
+  }
+
+  function duplicateSection(sectionId: string): ArrangementSection | null {
+    const index = sections.value.findIndex((s) => s.id === sectionId)
+    if (index === -1) return null
+    const source = sections.value[index]!
+    const copy: ArrangementSection = {
+      ...source,
+      id: generateSectionId(),
+      name: `${source.name} (Copy)`,
+      layerIds: [...source.layerIds],
+    }
+    sections.value.splice(index + 1, 0, copy)
+    return copy
+  }
+
+  function moveSection(sectionId: string, toIndex: number) {
+    const index = sections.value.findIndex((s) => s.id === sectionId)
+    if (index === -1 || toIndex < 0 || toIndex >= sections.value.length) return
+    const [section] = sections.value.splice(index, 1)
+    sections.value.splice(toIndex, 0, section!)
+  }
+
+  function removeSection(sectionId: string) {
+    sections.value = sections.value.filter((s) => s.id !== sectionId)
+  }
+
+  /**
+   * Switching on mid-playback lets the layers already playing finish the bar,
+   * then starts the arrangement from its first section.
+   */
+  function setEnabled(value: boolean) {
+    if (enabled.value === value) return
+    enabled.value = value
+    if (value && !audioStore.isStopped && audioEngine.isInitialized()) {
+      const boundary = LoopQuantizer.getNextMeasureBoundary(Tone.getTransport().ticks)
+      carried = new Map(looperStore.activeLayers.map((layer) => [layer.id, [{ start: 0, end: boundary }]]))
+      origin = { startTicks: boundary, fromIndex: 0 }
+      queuedSectionIndex.value = 0
+    } else {
+      resetOrigin()
+    }
+    apply()
+  }
+
+  // While playing the jump waits for the next bar; while stopped it sets where playback starts
+  function playFromSection(index: number) {
+    if (index < 0 || index >= sections.value.length) return
+    if (audioStore.isStopped || !audioEngine.isInitialized()) {
+      resetOrigin(index)
+      apply()
+      return
+    }
+    const boundary = LoopQuantizer.getNextMeasureBoundary(Tone.getTransport().ticks)
+    carried = windowsBefore(currentWindows(), boundary)
+    origin = { startTicks: boundary, fromIndex: index }
+    queuedSectionIndex.value = index
+    apply()
+  }
+
+  // Everything needed to render the arrangement from its first section
+  function getRenderPlan(): { layerIds: string[]; windows: Map<string, PlaybackWindow[]>; durationTicks: number } | null {
+    if (!isActive.value) return null
+    const windows = ArrangementTimeline.layerWindows(sections.value, 0)
+    return {
+      layerIds: Array.from(windows.keys()),
+      windows,
+      durationTicks: ArrangementTimeline.totalTicks(sections.value),
+    }
+  }
+
+  function getState(): ArrangementState {
+    return {
+      enabled: enabled.value,
+      sections: sections.value.map((section) => ({ ...section, layerIds: [...section.layerIds] })),
+    }
+  }
+
+  // Sessions saved before arrangements existed load with arrangement mode off
+  function hydrateFromState(state?: ArrangementState) {
+    sections.value = state?.sections.map((section) => ({ ...section, layerIds: [...section.layerIds] })) ?? []
+    enabled.value = state?.enabled ?? false
+    resetOrigin()
+    apply()
+  }
+
+  // Back at the top once the transport stops, from the beginning or wherever the user picked
+  watch(
+    () => audioStore.isStopped,
+    (stopped) => {
+      if (!stopped || !isActive.value) return
+      resetOrigin(origin.startTicks === 0 ? origin.fromIndex : 0)
+      apply()
+    }
+  )
+
+  watch(
+    sections,
+    () => {
+      if (enabled.value) apply()
+    },
+    { deep: true }
+  )
+
+  // Removed layers leave every section; undoing the removal puts them back
+  looperStore.onLayerRemoved((layerId) => detachLayer(() => sections.value, layerId))
+
+  return {
+    sections,
+    enabled,
+    currentSectionIndex,
+    queuedSectionIndex,
+    isActive,
+    totalBars,
+    addSection,
+    updateSection,
+    toggleSectionLayer,
+    duplicateSection,
+    moveSection,
+    removeSection,
+    setEnabled,
+    playFromSection,
+    getRenderPlan,
+    getState,
+    hydrateFromState,
+  }
+})
@@ -2,13 +2,20 @@ import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import audioEngine from '@/audio/AudioEngine'
 import instrumentFactory from '@/audio/instruments/InstrumentFactory'
-import type { TransportState } from '@/types'
+import { cloneMasterSettings } from '@/audio/MasterBus'
+import { cloneAuxBusSettings } from '@/audio/effects/AuxBuses'
+import type { AuxBusSettings, MasterSettings, TransportState } from '@/types'
 
 export const useAudioStore = defineStore('audio', () => {
   const initialized = ref(false)
   const transportState = ref<TransportState>('stopped')
   const bpm = ref(120)
   const position = ref('0:0:0')
+  const metronomeEnabled = ref(false)
+  const metronomeVolume = ref(-6) // dB
+  const metronomeInExports = ref(false)
+  const master = ref<MasterSettings>(audioEngine.masterBus.getSettings())
+  const auxBuses = ref<AuxBusSettings[]>(audioEngine.auxBuses.getSettings())
 
   const isPlaying = computed(() => transportState.value === 'playing')
   const isRecording = computed(() => transportState.value === 'recording')
@@ -26,6 +33,35 @@ export const useAudioStore = defineStore('audio', () => {
     audioEngine.setBpm(value)
   }
 
+  function setMetronomeEnabled(enabled: boolean) {
+    metronomeEnabled.value = enabled
+    audioEngine.metronome.setEnabled(enabled)
+  }
+
+  function setMetronomeVolume(db: number) {
+    metronomeVolume.value = db
+    audioEngine.metronome.setVolume(db)
+  }
+
+  function setMetronomeInExports(include: boolean) {
+    metronomeInExports.value = include
+  }
+
+  // Missing fields (older sessions) fall back to the defaults
+  function setMasterSettings(settings?: MasterSettings) {
+    master.value = cloneMasterSettings(settings)
+    audioEngine.masterBus.apply(master.value)
+  }
+
+  function setAuxBuses(settings?: AuxBusSettings[]) {
+    auxBuses.value = cloneAuxBusSettings(settings)
+    audioEngine.auxBuses.apply(auxBuses.value)
+  }
+
+  function updateAuxBus(busId: string, changes: Partial<Omit<AuxBusSettings, 'id'>>) {
+    setAuxBuses(auxBuses.value.map((bus) => (bus.id === busId ? { ...bus, ...changes } : bus)))
+  }
+
   function play(offset?: string) {
     if (offset) {
       audioEngine.startAt(offset)
@@ -62,11 +98,22 @@ export const useAudioStore = defineStore('audio', () => {
     transportState,
     bpm,
     position,
+    metronomeEnabled,
+    metronomeVolume,
+    metronomeInExports,
+    master,
+    auxBuses,
     isPlaying,
     isRecording,
     isStopped,
     init,
     setBpm,
+    setMetronomeEnabled,
+    setMetronomeVolume,
+    setMetronomeInExports,
+    setMasterSettings,
+    setAuxBuses,
+    updateAuxBus,
     play,
     stop,
     startRecording,
@@ -14,6 +14,7 @@ import type {
 import { getScaleNotesForGrid, SCALE_DEFINITIONS } from '@/utils/scales'
 import { instrumentFactory } from '@/audio/instruments/InstrumentFactory'
 import { useLooperStore } from './looperStore'
+import { useHistoryStore } from './historyStore'
 
 // Drum row configuration (bottom to top for grid display)
 const DRUM_ROWS: { sound: DrumSound; label: string }[] = [
@@ -36,6 +37,8 @@ function generateGridLayerId(): string {
 }
 
 export const useGridStore = defineStore('grid', () => {
+  const history = useHistoryStore()
+
   // State
   const mode = ref<GridMode>('drums')
   const rootNote = ref<RootNote>('C')
@@ -84,6 +87,17 @@ export const useGridStore = defineStore('grid', () => {
   })
 
   // Functions
+  function captureState(): ReturnType<typeof getStateForSharing> {
+    return JSON.parse(JSON.stringify(getStateForSharing()))
+  }
+
+  // Records a grid edit as an undoable step, given the state from before it
+  function recordChange(label: string, before: ReturnType<typeof getStateForSharing>, key?: string) {
+    const after = captureState()
+    if (JSON.stringify(after) === JSON.stringify(before)) return
+    history.push({ label, key, undo: () => applyState(before), redo: () => applyState(after) })
+  }
+
   function createEmptyPattern(rows: number, steps: number): GridPattern {
     return Array.from({ length: rows }, () =>
       Array.from({ length: steps }, () => ({ active: false, velocity: 0.8 }))
@@ -92,6 +106,7 @@ export const useGridStore = defineStore('grid', () => {
 
   function toggleCell(row: number, step: number) {
     if (pattern.value[row] && pattern.value[row][step]) {
+      const before = captureState()
       const wasActive = pattern.value[row][step].active
       pattern.value[row][step].active = !wasActive
 
@@ -113,16 +128,20 @@ export const useGridStore = defineStore('grid', () => {
           }
         }
       }
+      recordChange('Toggle step', before)
     }
   }
 
   function setCellVelocity(row: number, step: number, velocity: number) {
     if (pattern.value[row] && pattern.value[row][step]) {
+      const before = captureState()
       pattern.value[row][step].velocity = Math.max(0, Math.min(1, velocity))
+      recordChange('Change velocity', before, `velocity:${row}:${step}`)
     }
   }
 
   function clearPattern() {
+    const before = captureState()
     pattern.value = createEmptyPattern(rowCount.value, stepCount.value)
     // Also clear the saved pattern for current mode
     if (mode.value === 'drums') {
@@ -130,9 +149,11 @@ export const useGridStore = defineStore('grid', () => {
     } else {
       melodicPatterns.delete(scaleName.value)
     }
+    recordChange('Clear grid', before)
   }
 
   function randomizePattern() {
+    const before = captureState()
     const newPattern = createEmptyPattern(rowCount.value, stepCount.value)
     for (let row = 0; row < rowCount.value; row++) {
       for (let step = 0; step < stepCount.value; step++) {
@@ -146,10 +167,12 @@ export const useGridStore = defineStore('grid', () => {
       }
     }
     pattern.value = newPattern
+    recordChange('Randomize grid', before)
   }
 
   function setMode(newMode: GridMode) {
     if (newMode === mode.value) return
+    const before = captureState()
 
     // Save current pattern before switching
     if (mode.value === 'drums') {
@@ -174,11 +197,13 @@ export const useGridStore = defineStore('grid', () => {
         )
       }
     }
+    recordChange('Change grid mode', before)
     // Playback continues uninterrupted - playStep handles both patterns
   }
 
   function setScale(newScale: ScaleName) {
     if (newScale === scaleName.value) return
+    const before = captureState()
 
     // Save current melodic pattern before switching scales
     if (mode.value === 'melodic') {
@@ -199,11 +224,14 @@ export const useGridStore = defineStore('grid', () => {
         )
       }
     }
+    recordChange('Change scale', before)
     // Playback continues uninterrupted
   }
 
   function setRootNote(note: RootNote) {
+    const before = captureState()
     rootNote.value = note
+    recordChange('Change root note', before)
   }
 
   function setOctave(oct: number) {
@@ -377,6 +405,7 @@ export const useGridStore = defineStore('grid', () => {
       endPadding: 0,
       instrumentId: instrumentType,
       volume: 0,
+      pan: 0,
       muted: false,
       solo: false,
     }
@@ -416,7 +445,11 @@ export const useGridStore = defineStore('grid', () => {
   }) {
     // Stop any preview first
     stopPreview()
+    applyState(state)
+  }
 
+  // Shared by hydration and undo; a running preview picks up the restored pattern
+  function applyState(state: ReturnType<typeof getStateForSharing>) {
     // Restore saved patterns (deep clone to ensure reactivity)
     drumsPattern = JSON.parse(JSON.stringify(state.drumsPattern))
     melodicPatterns.clear()
@@ -449,6 +482,7 @@ export const useGridStore = defineStore('grid', () => {
   ) {
     // Stop any preview first
     stopPreview()
+    const before = captureState()
 
     const isDrums = instrumentId === 'drums'
     const stepTicks = Tone.Time('16n').toTicks()
@@ -535,6 +569,7 @@ export const useGridStore = defineStore('grid', () => {
       // Save to melodic patterns
       melodicPatterns.set(scaleName.value, JSON.parse(JSON.stringify(pattern.value)))
     }
+    recordChange('Edit layer in grid', before)
   }
 
   // Note: mode/scale changes are handled directly in setMode/setScale
@@ -0,0 +1,129 @@
+import { defineStore } from 'pinia'
+import { computed, shallowRef } from 'vue'
+
+export interface HistoryCommand {
+  label: string
+  undo: () => void
+  redo: () => void
+  key?: string // commands sharing a key within one group collapse into one
+}
+
+// Oldest entries fall off the bottom beyond this
+const MAX_HISTORY = 100
+
+interface OpenGroup {
+  label: string
+  commands: HistoryCommand[]
+}
+
+function compose(group: OpenGroup): HistoryCommand {
+  const commands = group.commands
+  if (commands.length === 1) return { ...commands[0]!, label: group.label }
+  return {
+    label: group.label,
+    undo: () => [...commands].reverse().forEach((command) => command.undo()),
+    redo: () => commands.forEach((command) => command.redo()),
+  }
+}
+
+export const useHistoryStore = defineStore('history', () => {
+  const undoStack = shallowRef<HistoryCommand[]>([])
+  const redoStack = shallowRef<HistoryCommand[]>([])
+
+  let group: OpenGroup | null = null
+  let groupDepth = 0
+  let suspended = 0 // while undoing, redoing or loading state
+
+  const canUndo = computed(() => undoStack.value.length > 0)
+  const canRedo = computed(() => redoStack.value.length > 0)
+  const undoLabel = computed(() => undoStack.value[undoStack.value.length - 1]?.label ?? null)
+  const redoLabel = computed(() => redoStack.value[redoStack.value.length - 1]?.label ?? null)
+
+  function push(command: HistoryCommand) {
+    if (suspended > 0) return
+    if (group) {
+      // Keep the state from before the first change and after the last one
+      const index = command.key ? group.commands.findIndex((c) => c.key === command.key) : -1
+      if (index !== -1) {
+        group.commands[index] = { ...group.commands[index]!, redo: command.redo }
+      } else {
+        group.commands.push(command)
+      }
+      return
+    }
+    undoStack.value = [...undoStack.value, command].slice(-MAX_HISTORY)
+    redoStack.value = []
+  }
+
+  /**
+   * Collect everything pushed until the matching endGroup into one entry,
+   * e.g. for the length of a drag. Groups nest; the outermost label wins.
+   */
+  function beginGroup(label: string) {
+    if (groupDepth++ === 0) {
+      group = { label, commands: [] }
+    }
+  }
+
+  function endGroup() {
+    if (groupDepth === 0 || --groupDepth > 0) return
+    const closed = group!
+    group = null
+    if (closed.commands.length > 0) push(compose(closed))
+  }
+
+  function transaction<T>(label: string, change: () => T): T {
+    beginGroup(label)
+    try {
+      return change()
+    } finally {
+      endGroup()
+    }
+  }
+
+  // For changes that should not be undoable, such as loading a session
+  function withoutRecording<T>(change: () => T): T {
+    suspended++
+    try {
+      return change()
+    } finally {
+      suspended--
+    }
+  }
+
+  function undo() {
+    const command = undoStack.value[undoStack.value.length - 1]
+    if (!command || group) return
+    undoStack.value = undoStack.value.slice(0, -1)
+    withoutRecording(command.undo)
+    redoStack.value = [...redoStack.value, command]
+  }
+
+  function redo() {
+    const command = redoStack.value[redoStack.value.length - 1]
+    if (!command || group) return
+    redoStack.value = redoStack.value.slice(0, -1)
+    withoutRecording(command.redo)
+    undoStack.value = [...undoStack.value, command]
+  }
+
+  function clear() {
+    undoStack.value = []
+    redoStack.value = []
+  }
+
+  return {
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    push,
+    beginGroup,
+    endGroup,
+    transaction,
+    withoutRecording,
+    undo,
+    redo,
+    clear,
+  }
+})
@@ -0,0 +1,187 @@
+import { defineStore } from 'pinia'
+import { ref, watch } from 'vue'
+import * as Tone from 'tone'
+import type { LaunchQuantum, LauncherScene } from '@/types'
+import { loopPlayer } from '@/audio/looper/LoopPlayer'
+import { LoopQuantizer } from '@/audio/looper/LoopQuantizer'
+import { useAudioStore } from './audioStore'
+import { useLooperStore } from './looperStore'
+import { useArrangementStore } from './arrangementStore'
+import { useHistoryStore } from './historyStore'
+import { detachLayer } from '@/utils/layerMembership'
+
+export interface PendingLaunch {
+  action: 'start' | 'stop'
+  ticks: number // transport tick it takes effect on
+}
+
+function generateSceneId(): string {
+  return `scene-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+export const useLauncherStore = defineStore('launcher', () => {
+  const audioStore = useAudioStore()
+  const looperStore = useLooperStore()
+  const arrangementStore = useArrangementStore()
+  const history = useHistoryStore()
+
+  const quantum = ref<LaunchQuantum>('1m')
+  const scenes = ref<LauncherScene[]>([])
+  const pending = ref<Record<string, PendingLaunch>>({}) // by layer id
+
+  // Transport events that flip the store state on the launch point, by layer id
+  const eventIds: Map<string, number> = new Map()
+  // Layers started from a launch point during this run of the transport
+  const launched: Set<string> = new Set()
+
+  // Audible right now: unmuted, and soloed whenever any layer is
+  function isLayerPlaying(layerId: string): boolean {
+    const layer = looperStore.layers.find((l) => l.id === layerId)
+    return !!layer && !layer.muted && (!looperStore.hasSolo || layer.solo)
+  }
+
+  function setQuantum(value: LaunchQuantum) {
+    quantum.value = value
+  }
+
+  function clearEvent(layerId: string) {
+    const eventId = eventIds.get(layerId)
+    if (eventId !== undefined) {
+      Tone.getTransport().clear(eventId)
+      eventIds.delete(layerId)
+    }
+  }
+
+  // Puts the layer back the way it was before it was queued
+  function cancel(layerId: string) {
+    if (!pending.value[layerId]) return
+    clearEvent(layerId)
+    delete pending.value[layerId]
+
+    loopPlayer.unscheduleLayer(layerId)
+    looperStore.syncPlayback()
+  }
+
+  function queue(layerId: string, action: PendingLaunch['action']) {
+    const layer = looperStore.layers.find((l) => l.id === layerId)
+    if (!layer || arrangementStore.isActive) return
+    cancel(layerId)
+    if (action === 'start' ? !layer.muted : layer.muted) return
+
+    // Nothing to line up with while stopped. Launches are performance moves, kept out of the undo history
+    if (audioStore.isStopped || quantum.value === 'none') {
+      history.withoutRecording(() => looperStore.toggleMute(layerId))
+      return
+    }
+
+    const ticks = LoopQuantizer.getNextBoundary(Tone.getTransport().ticks, quantum.value)
+    if (action === 'start') {
+      loopPlayer.launchLayer(layer, ticks)
+      launched.add(layerId)
+    } else {
+      loopPlayer.stopLayerAt(layerId, ticks)
+    }
+
+    pending.value[layerId] = { action, ticks }
+    const eventId = Tone.getTransport().schedule((time) => {
+      Tone.getDraw().schedule(() => {
+        eventIds.delete(layerId)
+        delete pending.value[layerId]
+        // The audio already switched on the launch point; bring the mute state in line
+        const current = looperStore.layers.find((l) => l.id === layerId)
+        if (current && (action === 'start' ? current.muted : !current.muted)) {
+          history.withoutRecording(() => looperStore.toggleMute(layerId))
+        }
+      }, time)
+    }, `${ticks}i`)
+    eventIds.set(layerId, eventId)
+  }
+
+  // A second click on a queued layer takes the launch back
+  function toggleLayer(layerId: string) {
+    if (pending.value[layerId]) {
+      cancel(layerId)
+    } else {
+      const layer = looperStore.layers.find((l) => l.id === layerId)
+      if (layer) queue(layerId, layer.muted ? 'start' : 'stop')
+    }
+  }
+
+  function launchScene(sceneId: string) {
+    const scene = scenes.value.find((s) => s.id === sceneId)
+    if (!scene) return
+    for (const layer of looperStore.layers) {
+      queue(layer.id, scene.layerIds.includes(layer.id) ? 'start' : 'stop')
+    }
+  }
+
+  function stopAll() {
+    for (const layer of looperStore.layers) {
+      queue(layer.id, 'stop')
+    }
+  }
+
+  // New scenes capture whatever is playing
+  function addScene(): LauncherScene {
+    const scene: LauncherScene = {
+      id: generateSceneId(),
+      name: `Scene ${scenes.value.length + 1}`,
+      layerIds: looperStore.layers.filter((l) => !l.muted).map((l) => l.id),
+    }
+    scenes.value.push(scene)
+    return scene
+  }
+
+  function renameScene(sceneId: string, name: string) {
+    const scene = scenes.value.find((s) => s.id === sceneId)
+    if (scene) scene.name = name
+  }
+
+  function toggleSceneLayer(sceneId: string, layerId: string) {
+    const scene = scenes.value.find((s) => s.id === sceneId)
+    if (!scene) return
+    scene.layerIds = scene.layerIds.includes(layerId)
+      ? scene.layerIds.filter((id) => id !== layerId)
+      : [...scene.layerIds, layerId]
+  }
+
+  function removeScene(sceneId: string) {
+    scenes.value = scenes.value.filter((s) => s.id !== sceneId)
+  }
+
+  // Anything still queued is dropped, and launched layers go back in step with transport zero
+  watch(
+    () => audioStore.isStopped,
+    (stopped) => {
+      if (!stopped) return
+      Object.keys(pending.value).forEach((layerId) => cancel(layerId))
+      if (launched.size === 0) return
+      loopPlayer.clearLaunches()
+      launched.forEach((layerId) => loopPlayer.unscheduleLayer(layerId))
+      launched.clear()
+      looperStore.syncPlayback()
+    }
+  )
+
+  // Removed layers lose any queued launch and leave every scene; undoing the removal puts them back
+  looperStore.onLayerRemoved((layerId) => {
+    clearEvent(layerId)
+    delete pending.value[layerId]
+    return detachLayer(() => scenes.value, layerId)
+  })
+
+  return {
+    quantum,
+    scenes,
+    pending,
+    isLayerPlaying,
+    setQuantum,
+    toggleLayer,
+    launchScene,
+    stopAll,
+    addScene,
+    renameScene,
+    toggleSceneLayer,
+    removeScene,
+  }
+})
@@ -1,20 +1,79 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { LoopLayer } from '@/types'
+import type { AudioClip, AutomationPoint, AutomationTarget, CountInBars, CountInMode, EffectType, LayerEffect, LayerMidiOutput, LayerSend, LayerTransform, LoopLayer, LoopNote, MidiEvent, OverdubMode, PunchRange, QuantizeSettings, RecordLength } from '@/types'
 import { loopRecorder, type RecordingSession } from '@/audio/looper/LoopRecorder'
 import { loopPlayer } from '@/audio/looper/LoopPlayer'
+import { LoopQuantizer } from '@/audio/looper/LoopQuantizer'
+import { LoopOverdub } from '@/audio/looper/LoopOverdub'
+import { LayerAutomation } from '@/audio/looper/LayerAutomation'
+import { LoopNotes } from '@/audio/looper/LoopNotes'
+import { LayerTransformer } from '@/audio/looper/LayerTransformer'
+import audioClipLibrary from '@/audio/looper/AudioClipLibrary'
+import { defaultEffectParams } from '@/audio/effects/EffectChain'
+import audioEngine from '@/audio/AudioEngine'
 import { useInstrumentStore } from './instrumentStore'
+import { useHistoryStore } from './historyStore'
 
 let layerIdCounter = 0
+let countInTimeoutId: number | null = null
 
 function generateLayerId(): string {
   return `layer-${++layerIdCounter}`
 }
 
+function generateEffectId(): string {
+  return `fx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function generateAutomationId(): string {
+  return `auto-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Keeps automation lined up with the events when the loop start moves
+function shiftAutomation(layer: LoopLayer, ticks: number) {
+  layer.automation?.forEach((lane) => {
+    lane.points = lane.points.map((point) => ({ ...point, time: point.time + ticks }))
+  })
+}
+
+// Clip audio is left out: it never changes once imported
+function serializeLayer(layer: LoopLayer): string {
+  return JSON.stringify({ ...layer, clip: layer.clip && { ...layer.clip, data: '' } })
+}
+
+// Snapshots for the undo history share the clip's audio data
+function cloneLayer(layer: LoopLayer): LoopLayer {
+  const copy: LoopLayer = JSON.parse(serializeLayer(layer))
+  if (layer.clip) copy.clip = { ...layer.clip }
+  return copy
+}
+
 export const useLooperStore = defineStore('looper', () => {
+  const history = useHistoryStore()
+
   const layers = ref<LoopLayer[]>([])
   const isRecording = ref(false)
   const loopDuration = ref(0) // in ticks
+  const recordLength = ref<RecordLength>(1)
+  const countInBars = ref<CountInBars>(0)
+  const countInMode = ref<CountInMode>('drop')
+  const isCountingIn = ref(false)
+  const armedLayerId = ref<string | null>(null)
+  const overdubMode = ref<OverdubMode>('add')
+  const captureBars = ref(8) // length of the retroactive capture buffer
+  const punchEnabled = ref(false)
+  const punchRange = ref<PunchRange>({ start: 0, end: audioEngine.getMeasureTicks() })
+  // Other stores that list layers by id; each drops a removed layer and returns how to put it back
+  const layerDetachers: Array<(layerId: string) => () => void> = []
+  // A transform being auditioned on one layer; the layer itself is untouched until applied
+  const transformPreview = ref<{ layerId: string; transform: LayerTransform; layer: LoopLayer } | null>(null)
+  const inputQuantizeEnabled = ref(false)
+  const inputQuantize = ref<QuantizeSettings>({
+    grid: '16n',
+    strength: 1,
+    swing: 0,
+    quantizeEnds: false,
+  })
 
   const hasSolo = computed(() => layers.value.some((l) => l.solo))
   const timelineDuration = computed(() => {
@@ -24,6 +83,11 @@ export const useLooperStore = defineStore('looper', () => {
     )
   })
 
+  const armedLayer = computed(() => layers.value.find((l) => l.id === armedLayerId.value) ?? null)
+
+  // Punch recording applies to the armed layer
+  const isPunchActive = computed(() => punchEnabled.value && armedLayer.value !== null)
+
   const activeLayers = computed(() =>
     layers.value.filter((l) => {
       if (hasSolo.value) {
@@ -33,16 +97,81 @@ export const useLooperStore = defineStore('looper', () => {
     })
   )
 
-  function startRecording() {
+  // withLoops: the other layers are heard while recording, so the take is kept in time with them
+  function startRecording(withLoops: boolean = true) {
     const instrumentStore = useInstrumentStore()
-    loopRecorder.startRecording(instrumentStore.currentInstrument)
+    const countInTicks = countInBars.value * audioEngine.getMeasureTicks()
+    // Overdubs run for as many passes as are played, so they have no fixed length
+    loopRecorder.startRecording(instrumentStore.currentInstrument, {
+      length: armedLayer.value ? 'free' : recordLength.value,
+      countInTicks,
+      keepCountIn: countInMode.value === 'pickup',
+      quantize: inputQuantizeEnabled.value ? { ...inputQuantize.value } : null,
+      alignToTransport: withLoops && activeLayers.value.length > 0,
+    })
     isRecording.value = true
+
+    // Silence the punch window while recording so the old notes are not heard
+    if (isPunchActive.value && armedLayer.value) {
+      const emptyTake = { events: [], originTicks: 0, playedTicks: 0 }
+      const playing = playbackVersion(armedLayer.value)
+      loopPlayer.scheduleLayer({
+        ...playing,
+        events: LoopOverdub.punchTake(playing, emptyTake, punchRange.value),
+      })
+      syncPlayback()
+    }
+
+    if (countInTicks > 0) {
+      isCountingIn.value = true
+      audioEngine.metronome.setCountingIn(true)
+      countInTimeoutId = audioEngine.setTimeout(endCountIn, audioEngine.ticksToSeconds(countInTicks))
+    }
+  }
+
+  function endCountIn() {
+    if (countInTimeoutId !== null) {
+      audioEngine.clearTimeout(countInTimeoutId)
+      countInTimeoutId = null
+    }
+    isCountingIn.value = false
+    audioEngine.metronome.setCountingIn(false)
+  }
+
+  function setCountInBars(bars: CountInBars) {
+    countInBars.value = bars
+  }
+
+  function setCountInMode(mode: CountInMode) {
+    countInMode.value = mode
+  }
+
+  function setInputQuantizeEnabled(enabled: boolean) {
+    inputQuantizeEnabled.value = enabled
+  }
+
+  function setInputQuantize(settings: QuantizeSettings) {
+    inputQuantize.value = { ...settings }
+  }
+
+  function setRecordLength(length: RecordLength) {
+    recordLength.value = length
   }
 
   function stopRecording(): LoopLayer[] {
     isRecording.value = false
+    endCountIn()
+    const takeStart = loopRecorder.getStartTicks()
+    const playedTicks = Math.max(0, loopRecorder.getPositionTicks() - takeStart)
     const sessions = loopRecorder.stopRecording()
 
+    const target = armedLayer.value
+    if (target && isPunchActive.value) {
+      // Bring back the notes silenced for the punch window
+      loopPlayer.unscheduleLayer(target.id)
+      syncPlayback()
+    }
+
     if (sessions.length === 0) {
       return []
     }
@@ -50,6 +179,11 @@ export const useLooperStore = defineStore('looper', () => {
     const newLayers: LoopLayer[] = []
     for (const session of sessions) {
       if (session.events.length > 0) {
+        // Overdub into the armed layer when the take matches its kind (drums or melodic)
+        if (target && (session.instrumentType === 'drums') === (target.instrumentId === 'drums')) {
+          overdubLayer(target, session, takeStart, playedTicks)
+          continue
+        }
         const layer = createLayerFromSession(session)
         addLayer(layer)
         newLayers.push(layer)
@@ -59,6 +193,61 @@ export const useLooperStore = defineStore('looper', () => {
     return newLayers
   }
 
+  function overdubLayer(layer: LoopLayer, session: RecordingSession, originTicks: number, played: number) {
+    const before = cloneLayer(layer)
+    const take = { originTicks, playedTicks: played }
+    const merge = (events: MidiEvent[], takeEvents: MidiEvent[]) => {
+      const target = { ...layer, events }
+      return isPunchActive.value
+        ? LoopOverdub.punchTake(target, { ...take, events: takeEvents }, punchRange.value)
+        : LoopOverdub.mergeTake(target, { ...take, events: takeEvents }, overdubMode.value)
+    }
+
+    layer.events = merge(layer.events, session.events)
+    // Keep the unquantized copy in step so restoring timing keeps the overdub
+    if (layer.originalEvents) {
+      layer.originalEvents = merge(layer.originalEvents, session.originalEvents ?? session.events)
+    }
+    loopPlayer.scheduleLayer(layer)
+    recordLayerChange(isPunchActive.value ? 'Punch in' : 'Overdub', before)
+  }
+
+  // Turn the phrase just played (without recording) into new layers
+  function captureRecent(): LoopLayer[] {
+    const instrumentStore = useInstrumentStore()
+    const newLayers: LoopLayer[] = []
+    for (const session of loopRecorder.capture(instrumentStore.currentInstrument)) {
+      const layer = createLayerFromSession(session)
+      addLayer(layer)
+      newLayers.push(layer)
+    }
+    return newLayers
+  }
+
+  function setPunchEnabled(enabled: boolean) {
+    punchEnabled.value = enabled
+  }
+
+  function setPunchRange(range: PunchRange) {
+    const start = Math.max(0, Math.round(range.start))
+    punchRange.value = { start, end: Math.max(start + 1, Math.round(range.end)) }
+  }
+
+  function setCaptureBars(bars: number) {
+    captureBars.value = bars
+    loopRecorder.setCaptureBars(bars)
+  }
+
+  function toggleArm(layerId: string) {
+    // Audio clips have no notes to overdub
+    if (layers.value.find((l) => l.id === layerId)?.clip) return
+    armedLayerId.value = armedLayerId.value === layerId ? null : layerId
+  }
+
+  function setOverdubMode(mode: OverdubMode) {
+    overdubMode.value = mode
+  }
+
   function createLayerFromSession(session: RecordingSession): LoopLayer {
     const instrumentName = session.instrumentType.charAt(0).toUpperCase() +
       session.instrumentType.slice(1)
@@ -74,17 +263,151 @@ export const useLooperStore = defineStore('looper', () => {
       endPadding: 0,
       instrumentId: session.instrumentType,
       volume: 0,
+      pan: 0,
+      muted: false,
+      solo: false,
+      ...(session.originalEvents && { originalEvents: session.originalEvents }),
+    }
+  }
+
+  // Add layers built outside the recorder (e.g. imported from a MIDI file)
+  function importLayers(
+    imported: Array<Pick<LoopLayer, 'name' | 'events' | 'duration' | 'instrumentId'>>
+  ): LoopLayer[] {
+    return imported.map((entry) => {
+      const layer: LoopLayer = {
+        id: generateLayerId(),
+        name: entry.name,
+        events: entry.events,
+        duration: entry.duration,
+        cropStart: 0,
+        cropEnd: entry.duration,
+        startPadding: 0,
+        endPadding: 0,
+        instrumentId: entry.instrumentId,
+        volume: 0,
+        pan: 0,
+        muted: false,
+        solo: false,
+      }
+      addLayer(layer)
+      return layer
+    })
+  }
+
+  // Length is rounded to whole bars at the current tempo; the audio itself is never stretched
+  function addClipLayer(name: string, clip: AudioClip): LoopLayer {
+    const measureTicks = audioEngine.getMeasureTicks()
+    const clipTicks = Math.round(audioEngine.secondsToTicks(clip.seconds))
+    const duration = Math.max(1, Math.round(clipTicks / measureTicks)) * measureTicks
+
+    const layer: LoopLayer = {
+      id: generateLayerId(),
+      name,
+      events: [],
+      duration,
+      cropStart: 0,
+      cropEnd: duration,
+      startPadding: 0,
+      endPadding: Math.max(0, duration - clipTicks),
+      instrumentId: 'piano', // unused, clips play their own audio
+      volume: 0,
+      pan: 0,
       muted: false,
       solo: false,
+      clip,
     }
+    addLayer(layer)
+    return layer
+  }
+
+  // Decode stored audio, then schedule the layer if it is still around and audible
+  function loadClip(layer: LoopLayer) {
+    if (!layer.clip || audioClipLibrary.get(layer.clip.id)) return
+    audioClipLibrary
+      .load(layer.clip)
+      .then(() => {
+        const current = layers.value.find((l) => l.id === layer.id)
+        if (current && audioEngine.isInitialized() && !current.muted && (!hasSolo.value || current.solo)) {
+          loopPlayer.scheduleLayer(current)
+        }
+      })
+      .catch((e) => console.error(`Failed to decode audio clip for ${layer.name}:`, e))
   }
 
   function getEffectiveDuration(layer: LoopLayer): number {
     return layer.cropEnd - layer.cropStart
   }
 
+  // What the player should hear for a layer: the preview while one is open
+  function playbackVersion(layer: LoopLayer): LoopLayer {
+    const preview = transformPreview.value
+    return preview?.layerId === layer.id ? { ...preview.layer, muted: layer.muted } : layer
+  }
+
+  // Brings the player in line with every layer's mute and solo state
+  function syncPlayback() {
+    layers.value.forEach((l) => {
+      const effectivelyMuted = hasSolo.value ? !l.solo || l.muted : l.muted
+      if (!effectivelyMuted && !loopPlayer.isLayerScheduled(l.id)) {
+        loopPlayer.scheduleLayer(playbackVersion(l))
+      }
+      loopPlayer.updateLayerMute(l.id, effectivelyMuted)
+    })
+  }
+
+  // Puts a layer back to a history snapshot
+  function restoreLayer(snapshot: LoopLayer) {
+    const index = layers.value.findIndex((l) => l.id === snapshot.id)
+    if (index === -1) return
+    if (transformPreview.value?.layerId === snapshot.id) transformPreview.value = null
+    layers.value[index] = cloneLayer(snapshot)
+    const layer = layers.value[index]!
+
+    loopDuration.value = Math.max(...layers.value.map((l) => getEffectiveDuration(l)))
+    loopPlayer.setLoopDuration(loopDuration.value)
+
+    loopPlayer.unscheduleLayer(layer.id)
+    loopPlayer.updateLayerMute(layer.id, false)
+    loopPlayer.updateLayerVolume(layer.id, layer.volume)
+    loopPlayer.updateLayerPan(layer.id, layer.pan)
+    loopPlayer.updateLayerEffects(layer.id, layer.effects ?? [])
+    loopPlayer.updateLayerSends(layer.id, layer.sends ?? [])
+    syncPlayback()
+  }
+
+  function onLayerRemoved(detach: (layerId: string) => () => void) {
+    layerDetachers.push(detach)
+  }
+
+  function detachLayer(layerId: string): () => void {
+    const restores = layerDetachers.map((detach) => detach(layerId))
+    return () => restores.forEach((restore) => restore())
+  }
+
+  // Re-adds a removed layer where it was
+  function insertLayer(snapshot: LoopLayer, index: number) {
+    const layerMatch = snapshot.id.match(/^layer-(\d+)$/)
+    if (layerMatch && layerMatch[1]) {
+      layerIdCounter = Math.max(layerIdCounter, parseInt(layerMatch[1], 10))
+    }
+    history.withoutRecording(() => addLayer(cloneLayer(snapshot), false))
+    const layer = layers.value.pop()!
+    layers.value.splice(Math.min(index, layers.value.length), 0, layer)
+    syncPlayback()
+  }
+
+  // Records a change to one layer as an undoable step, given a snapshot from before it
+  function recordLayerChange(label: string, before: LoopLayer, key?: string) {
+    const layer = layers.value.find((l) => l.id === before.id)
+    if (!layer || serializeLayer(layer) === serializeLayer(before)) return
+    const after = cloneLayer(layer)
+    history.push({ label, key, undo: () => restoreLayer(before), redo: () => restoreLayer(after) })
+  }
+
   function addLayer(layer: LoopLayer, schedule: boolean = true) {
     layers.value.push(layer)
+    loadClip(layer)
 
     // Update loop duration to longest layer (using effective/cropped duration)
     const effectiveDuration = getEffectiveDuration(layer)
@@ -97,14 +420,36 @@ export const useLooperStore = defineStore('looper', () => {
       // Schedule the new layer
       loopPlayer.scheduleLayer(layer)
     }
+
+    const index = layers.value.length - 1
+    const snapshot = cloneLayer(layer)
+    history.push({
+      label: 'Add layer',
+      undo: () => removeLayer(layer.id),
+      redo: () => insertLayer(snapshot, index),
+    })
   }
 
   function removeLayer(layerId: string) {
     const index = layers.value.findIndex((l) => l.id === layerId)
     if (index === -1) return
 
-    loopPlayer.unscheduleLayer(layerId)
+    const snapshot = cloneLayer(layers.value[index]!)
+    if (transformPreview.value?.layerId === layerId) transformPreview.value = null
+    loopPlayer.removeLayer(layerId)
     layers.value.splice(index, 1)
+    const reattach = detachLayer(layerId)
+    history.push({
+      label: 'Remove layer',
+      undo: () => {
+        insertLayer(snapshot, index)
+        reattach()
+      },
+      redo: () => removeLayer(layerId),
+    })
+    if (armedLayerId.value === layerId) {
+      armedLayerId.value = null
+    }
 
     // Recalculate loop duration using effective durations
     if (layers.value.length > 0) {
@@ -125,7 +470,7 @@ export const useLooperStore = defineStore('looper', () => {
       name: `${layer.name} (Copy)`,
     }
 
-    addLayer(newLayer)
+    history.transaction('Duplicate layer', () => addLayer(newLayer))
     return newLayer
   }
 
@@ -136,25 +481,39 @@ export const useLooperStore = defineStore('looper', () => {
     // Can only shrink if we have padding on this side
     if (layer.startPadding < ticks) return
 
+    const before = cloneLayer(layer)
     layer.cropStart += ticks
     layer.startPadding -= ticks
+    shiftAutomation(layer, -ticks)
 
     // Recalculate loop duration
     loopDuration.value = Math.max(...layers.value.map((l) => getEffectiveDuration(l)))
     loopPlayer.setLoopDuration(loopDuration.value)
 
     loopPlayer.scheduleLayer(layer)
+    recordLayerChange('Crop layer', before)
   }
 
   function extendFromStart(layerId: string, ticks: number) {
     const layer = layers.value.find((l) => l.id === layerId)
     if (!layer || ticks <= 0) return
 
+    const before = cloneLayer(layer)
     // Add empty space at start - shift all events forward
     layer.events = layer.events.map((event) => ({
       ...event,
       time: event.time + ticks,
     }))
+    if (layer.originalEvents) {
+      layer.originalEvents = layer.originalEvents.map((event) => ({
+        ...event,
+        time: event.time + ticks,
+      }))
+    }
+    if (layer.clip) {
+      layer.clip.start += ticks
+    }
+    shiftAutomation(layer, ticks)
     layer.duration += ticks
     layer.cropEnd += ticks
     layer.startPadding += ticks
@@ -164,6 +523,7 @@ export const useLooperStore = defineStore('looper', () => {
     loopPlayer.setLoopDuration(loopDuration.value)
 
     loopPlayer.scheduleLayer(layer)
+    recordLayerChange('Crop layer', before)
   }
 
   function shrinkFromEnd(layerId: string, ticks: number) {
@@ -173,6 +533,7 @@ export const useLooperStore = defineStore('looper', () => {
     // Can only shrink if we have padding on this side
     if (layer.endPadding < ticks) return
 
+    const before = cloneLayer(layer)
     layer.cropEnd -= ticks
     layer.endPadding -= ticks
 
@@ -181,12 +542,14 @@ export const useLooperStore = defineStore('looper', () => {
     loopPlayer.setLoopDuration(loopDuration.value)
 
     loopPlayer.scheduleLayer(layer)
+    recordLayerChange('Crop layer', before)
   }
 
   function extendFromEnd(layerId: string, ticks: number) {
     const layer = layers.value.find((l) => l.id === layerId)
     if (!layer || ticks <= 0) return
 
+    const before = cloneLayer(layer)
     layer.duration += ticks
     layer.cropEnd += ticks
     layer.endPadding += ticks
@@ -195,48 +558,277 @@ export const useLooperStore = defineStore('looper', () => {
     loopPlayer.setLoopDuration(loopDuration.value)
 
     loopPlayer.scheduleLayer(layer)
+    recordLayerChange('Crop layer', before)
   }
 
   function toggleMute(layerId: string) {
     const layer = layers.value.find((l) => l.id === layerId)
     if (!layer) return
 
+    const before = cloneLayer(layer)
     layer.muted = !layer.muted
     loopPlayer.updateLayerMute(layerId, layer.muted)
-    // Silence any hanging notes when muting
-    if (layer.muted) {
-      loopPlayer.silenceAllNotes()
+    // Layers that were muted when scheduled have nothing to unmute yet
+    if (!layer.muted && !loopPlayer.isLayerScheduled(layerId)) {
+      loopPlayer.scheduleLayer(layer)
     }
+    recordLayerChange(layer.muted ? 'Mute layer' : 'Unmute layer', before)
   }
 
   function toggleSolo(layerId: string) {
     const layer = layers.value.find((l) => l.id === layerId)
     if (!layer) return
 
+    const before = cloneLayer(layer)
     layer.solo = !layer.solo
-
-    // Update all layers' effective mute state
-    layers.value.forEach((l) => {
-      const effectivelyMuted = hasSolo.value ? !l.solo || l.muted : l.muted
-      loopPlayer.updateLayerMute(l.id, effectivelyMuted)
-    })
-    // Silence any hanging notes after mute state changes
-    loopPlayer.silenceAllNotes()
+    syncPlayback()
+    recordLayerChange(layer.solo ? 'Solo layer' : 'Unsolo layer', before)
   }
 
   function setLayerVolume(layerId: string, volume: number) {
     const layer = layers.value.find((l) => l.id === layerId)
     if (layer) {
+      const before = cloneLayer(layer)
       layer.volume = volume
       loopPlayer.updateLayerVolume(layerId, volume)
+      recordLayerChange('Change volume', before, `volume:${layerId}`)
+    }
+  }
+
+  function setLayerPan(layerId: string, pan: number) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (layer) {
+      const before = cloneLayer(layer)
+      layer.pan = pan
+      loopPlayer.updateLayerPan(layerId, pan)
+      recordLayerChange('Change pan', before, `pan:${layerId}`)
+    }
+  }
+
+  // Insert effects are edited in place and pushed to the layer's live chain
+  function addLayerEffect(layerId: string, type: EffectType): LayerEffect | null {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer) return null
+    const before = cloneLayer(layer)
+    const effect: LayerEffect = { id: generateEffectId(), type, bypassed: false, params: defaultEffectParams(type) }
+    layer.effects = [...(layer.effects ?? []), effect]
+    loopPlayer.updateLayerEffects(layerId, layer.effects)
+    recordLayerChange('Add effect', before)
+    return effect
+  }
+
+  function removeLayerEffect(layerId: string, effectId: string) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer?.effects) return
+    const before = cloneLayer(layer)
+    layer.effects = layer.effects.filter((effect) => effect.id !== effectId)
+    loopPlayer.updateLayerEffects(layerId, layer.effects)
+    if (layer.automation?.some((lane) => lane.target.type === 'effect' && lane.target.effectId === effectId)) {
+      layer.automation = layer.automation.filter(
+        (lane) => lane.target.type !== 'effect' || lane.target.effectId !== effectId
+      )
+      loopPlayer.updateLayerAutomation(layer)
+    }
+    recordLayerChange('Remove effect', before)
+  }
+
+  function moveLayerEffect(layerId: string, effectId: string, toIndex: number) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer?.effects) return
+    const fromIndex = layer.effects.findIndex((effect) => effect.id === effectId)
+    if (fromIndex === -1 || toIndex < 0 || toIndex >= layer.effects.length || toIndex === fromIndex) return
+    const before = cloneLayer(layer)
+    const effects = [...layer.effects]
+    const [moved] = effects.splice(fromIndex, 1)
+    effects.splice(toIndex, 0, moved!)
+    layer.effects = effects
+    loopPlayer.updateLayerEffects(layerId, layer.effects)
+    recordLayerChange('Move effect', before)
+  }
+
+  function toggleEffectBypass(layerId: string, effectId: string) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    const effect = layer?.effects?.find((e) => e.id === effectId)
+    if (!layer || !effect) return
+    const before = cloneLayer(layer)
+    effect.bypassed = !effect.bypassed
+    loopPlayer.updateLayerEffects(layerId, layer.effects!)
+    recordLayerChange(effect.bypassed ? 'Bypass effect' : 'Enable effect', before)
+  }
+
+  function setEffectParam(layerId: string, effectId: string, key: string, value: number) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    const effect = layer?.effects?.find((e) => e.id === effectId)
+    if (!layer || !effect) return
+    const before = cloneLayer(layer)
+    effect.params[key] = value
+    loopPlayer.updateLayerEffects(layerId, layer.effects!)
+    recordLayerChange('Change effect', before, `effect:${layerId}:${effectId}:${key}`)
+  }
+
+  // Sends left at zero with default options are dropped from the layer
+  function setLayerSend(layerId: string, busId: string, changes: Partial<Omit<LayerSend, 'busId'>>) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer) return
+    const before = cloneLayer(layer)
+    const current = layer.sends?.find((send) => send.busId === busId)
+    const send: LayerSend = { busId, level: 0, preFader: false, ...current, ...changes }
+    const others = (layer.sends ?? []).filter((s) => s.busId !== busId)
+    layer.sends = send.level > 0 || send.preFader ? [...others, send] : others
+    loopPlayer.updateLayerSends(layerId, layer.sends)
+    recordLayerChange('Change send', before, `send:${layerId}:${busId}`)
+  }
+
+  // Replaces a target's breakpoints; an empty list removes its lane
+  function setAutomationPoints(layerId: string, target: AutomationTarget, points: AutomationPoint[]) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer) return
+    const before = cloneLayer(layer)
+    const key = LayerAutomation.targetKey(target)
+    const lanes = (layer.automation ?? []).filter((lane) => LayerAutomation.targetKey(lane.target) !== key)
+    if (points.length > 0) {
+      const existing = layer.automation?.find((lane) => LayerAutomation.targetKey(lane.target) === key)
+      lanes.push({
+        id: existing?.id ?? generateAutomationId(),
+        target: { ...target },
+        points: LayerAutomation.sortPoints(points),
+      })
+    }
+    layer.automation = lanes
+    loopPlayer.updateLayerAutomation(layer)
+    recordLayerChange('Edit automation', before, `automation:${layerId}:${key}`)
+  }
+
+  function setLayerMidiOutput(layerId: string, output: LayerMidiOutput | null) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer) return
+    const before = cloneLayer(layer)
+    if (output) {
+      layer.midiOutput = { ...output }
+    } else {
+      delete layer.midiOutput
+    }
+    if (loopPlayer.isLayerScheduled(layerId)) {
+      loopPlayer.scheduleLayer(layer)
+    }
+    recordLayerChange('Change MIDI output', before)
+  }
+
+  // Quantize from the original timing, so settings can be changed or undone later
+  function quantizeLayer(layerId: string, settings: QuantizeSettings) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer) return
+
+    const before = cloneLayer(layer)
+    const original = layer.originalEvents ?? layer.events
+    layer.originalEvents = original
+    layer.events = LoopQuantizer.quantizeEvents(original, settings, {
+      start: layer.cropStart,
+      end: layer.cropEnd,
+    })
+    loopPlayer.scheduleLayer(layer)
+    recordLayerChange('Quantize', before)
+  }
+
+  function restoreLayerTiming(layerId: string) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer?.originalEvents) return
+
+    const before = cloneLayer(layer)
+    layer.events = layer.originalEvents
+    delete layer.originalEvents
+    loopPlayer.scheduleLayer(layer)
+    recordLayerChange('Restore timing', before)
+  }
+
+  // Piano-roll edits; the pre-quantize timing is dropped since restoring it would discard them
+  function setLayerNotes(layerId: string, notes: LoopNote[], label: string = 'Edit notes') {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer || layer.clip) return
+
+    const before = cloneLayer(layer)
+    layer.events = LoopNotes.toEvents(notes, layer.instrumentId === 'drums')
+    delete layer.originalEvents
+    if (loopPlayer.isLayerScheduled(layerId)) {
+      loopPlayer.scheduleLayer(layer)
+    }
+    recordLayerChange(label, before)
+  }
+
+  // Plays and draws the transformed layer in place of the real one
+  function previewTransform(layerId: string, transform: LayerTransform) {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer || layer.clip) return
+    if (transformPreview.value && transformPreview.value.layerId !== layerId) {
+      cancelTransformPreview()
+    }
+    transformPreview.value = { layerId, transform, layer: LayerTransformer.apply(layer, transform) }
+    if (loopPlayer.isLayerScheduled(layerId)) {
+      loopPlayer.scheduleLayer(playbackVersion(layer))
+    }
+  }
+
+  function cancelTransformPreview() {
+    const preview = transformPreview.value
+    if (!preview) return
+    transformPreview.value = null
+    const layer = layers.value.find((l) => l.id === preview.layerId)
+    if (layer && loopPlayer.isLayerScheduled(layer.id)) {
+      loopPlayer.scheduleLayer(layer)
+    }
+  }
+
+  /**
+   * Apply a transform to the layer itself, or to a copy added after the
+   * other layers. Like note edits, this drops the pre-quantize timing.
+   */
+  function transformLayer(layerId: string, transform: LayerTransform, asCopy: boolean = false): LoopLayer | null {
+    const layer = layers.value.find((l) => l.id === layerId)
+    if (!layer || layer.clip) return null
+    cancelTransformPreview()
+
+    const label = LayerTransformer.describe(transform)
+    const transformed: LoopLayer = JSON.parse(JSON.stringify(LayerTransformer.apply(layer, transform)))
+    delete transformed.originalEvents
+
+    if (asCopy) {
+      const copy: LoopLayer = { ...transformed, id: generateLayerId(), name: `${layer.name} (${label})` }
+      history.transaction(label, () => addLayer(copy))
+      return copy
+    }
+
+    const before = cloneLayer(layer)
+    Object.assign(layer, transformed)
+    delete layer.originalEvents
+
+    loopDuration.value = Math.max(...layers.value.map((l) => getEffectiveDuration(l)))
+    loopPlayer.setLoopDuration(loopDuration.value)
+    if (loopPlayer.isLayerScheduled(layerId)) {
+      loopPlayer.scheduleLayer(layer)
     }
+    recordLayerChange(label, before)
+    return layer
   }
 
   function clearAllLayers() {
-    loopPlayer.unscheduleAll()
+    const snapshots = layers.value.map((layer) => cloneLayer(layer))
+    const reattach = snapshots.map((snapshot) => detachLayer(snapshot.id))
+    loopPlayer.removeAllLayers()
+    transformPreview.value = null
     layers.value = []
     loopDuration.value = 0
     layerIdCounter = 0
+    armedLayerId.value = null
+    if (snapshots.length > 0) {
+      history.push({
+        label: 'Clear all layers',
+        undo: () => {
+          snapshots.forEach((snapshot, index) => insertLayer(snapshot, index))
+          reattach.forEach((restore) => restore())
+        },
+        redo: () => clearAllLayers(),
+      })
+    }
   }
 
   function hydrateFromState(
@@ -244,8 +836,10 @@ export const useLooperStore = defineStore('looper', () => {
     options: { schedule?: boolean } = {}
   ): { maxGridId: number } {
     const { schedule = true } = options
+    // A loaded session starts with a fresh history
+    history.clear()
     // Clear existing layers first
-    clearAllLayers()
+    history.withoutRecording(() => clearAllLayers())
 
     // Update layer counter to avoid ID collisions
     // Check both "layer-N" and "grid-N" patterns
@@ -263,10 +857,12 @@ export const useLooperStore = defineStore('looper', () => {
     }
     layerIdCounter = maxLayerId
 
-    // Add each layer
-    for (const layer of newLayers) {
-      addLayer(layer, schedule)
-    }
+    // Add each layer (sessions saved before pan existed do not have it)
+    history.withoutRecording(() => {
+      for (const layer of newLayers) {
+        addLayer({ ...layer, pan: layer.pan ?? 0 }, schedule)
+      }
+    })
 
     // Return maxGridId so caller can update gridStore's counter
     return { maxGridId }
@@ -275,7 +871,7 @@ export const useLooperStore = defineStore('looper', () => {
   function rescheduleAllLayers() {
     layers.value.forEach((layer) => {
       if (!layer.muted && (!hasSolo.value || layer.solo)) {
-        loopPlayer.scheduleLayer(layer)
+        loopPlayer.scheduleLayer(playbackVersion(layer))
       }
     })
   }
@@ -315,27 +911,71 @@ export const useLooperStore = defineStore('looper', () => {
     layers,
     isRecording,
     loopDuration,
+    recordLength,
+    countInBars,
+    countInMode,
+    isCountingIn,
+    armedLayerId,
+    overdubMode,
+    captureBars,
+    punchEnabled,
+    punchRange,
+    armedLayer,
+    isPunchActive,
+    transformPreview,
+    inputQuantizeEnabled,
+    inputQuantize,
     hasSolo,
     activeLayers,
     timelineDuration,
     startRecording,
     stopRecording,
+    setRecordLength,
+    setCountInBars,
+    setCountInMode,
+    setInputQuantizeEnabled,
+    setInputQuantize,
+    toggleArm,
+    captureRecent,
+    setCaptureBars,
+    setPunchEnabled,
+    setPunchRange,
+    setOverdubMode,
     addLayer,
+    importLayers,
+    addClipLayer,
     removeLayer,
     duplicateLayer,
     toggleMute,
     toggleSolo,
     setLayerVolume,
+    setLayerPan,
+    addLayerEffect,
+    removeLayerEffect,
+    moveLayerEffect,
+    toggleEffectBypass,
+    setEffectParam,
+    setLayerSend,
+    setAutomationPoints,
+    setLayerMidiOutput,
+    quantizeLayer,
+    restoreLayerTiming,
+    setLayerNotes,
+    previewTransform,
+    cancelTransformPreview,
+    transformLayer,
     shrinkFromStart,
     extendFromStart,
     shrinkFromEnd,
     extendFromEnd,
     clearAllLayers,
     rescheduleAllLayers,
+    syncPlayback,
     recordNoteOn,
     recordNoteOff,
     muteAllLayers,
     restoreLayerMuteStates,
     hydrateFromState,
+    onLayerRemoved,
   }
 })
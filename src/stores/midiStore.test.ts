@@ -0,0 +1,246 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useMidiStore } from './midiStore'
+
+// A Web MIDI stand-in: inputs that can be fed raw bytes and plugged in or out
+const fakeMidi = vi.hoisted(() => {
+  class FakeInput {
+    id: string
+    name: string
+    manufacturer = 'Test'
+    state: MIDIPortDeviceState = 'connected'
+    onmidimessage: ((event: { data: Uint8Array; timeStamp: number }) => void) | null = null
+
+    constructor(id: string, name: string) {
+      this.id = id
+      this.name = name
+    }
+
+    send(bytes: number[]) {
+      this.onmidimessage?.({ data: new Uint8Array(bytes), timeStamp: 0 })
+    }
+  }
+
+  interface FakeAccess {
+    inputs: Map<string, FakeInput>
+    outputs: Map<string, unknown>
+    onstatechange: (() => void) | null
+  }
+
+  // Like the browser, every request gets its own MIDIAccess over the same ports
+  const inputs = new Map<string, FakeInput>()
+  const granted: FakeAccess[] = []
+  const notify = () => granted.forEach((access) => access.onstatechange?.())
+
+  return {
+    inputs,
+    provider: () => {
+      const access: FakeAccess = { inputs, outputs: new Map(), onstatechange: null }
+      granted.push(access)
+      return Promise.resolve(access as unknown as MIDIAccess)
+    },
+    plug(id: string, name: string) {
+      const input = new FakeInput(id, name)
+      inputs.set(id, input)
+      notify()
+      return input
+    },
+    unplug(id: string) {
+      inputs.get(id)!.state = 'disconnected'
+      notify()
+    },
+    reset() {
+      inputs.clear()
+      granted.length = 0
+    },
+  }
+})
+
+const sound = vi.hoisted(() => ({
+  trigger: vi.fn(),
+  noteOn: vi.fn(),
+  noteOff: vi.fn(),
+  recordNoteOn: vi.fn(),
+  recordNoteOff: vi.fn(),
+  isDrums: false,
+}))
+
+vi.mock('@/audio/midi/MidiInput', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/audio/midi/MidiInput')>()
+  class SupportedMidiInput extends actual.MidiInput {
+    static isSupported(): boolean {
+      return true
+    }
+  }
+  const midiInput = new SupportedMidiInput(fakeMidi.provider)
+  return { ...actual, MidiInput: SupportedMidiInput, midiInput, default: midiInput }
+})
+
+vi.mock('@/audio/midi/MidiOutput', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/audio/midi/MidiOutput')>()
+  const midiOutput = new actual.MidiOutput(fakeMidi.provider)
+  return { ...actual, midiOutput, default: midiOutput }
+})
+
+// Clock and layer output run on the Tone transport, which needs an audio context
+vi.mock('@/audio/midi/MidiClock', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/audio/midi/MidiClock')>()
+  const midiClockOut = { start: vi.fn(), stop: vi.fn() }
+  return { ...actual, default: midiClockOut }
+})
+
+vi.mock('@/audio/midi/LayerMidiSender', () => ({
+  LayerMidiSender: class {},
+}))
+
+vi.mock('@/audio/looper/LoopPlayer', () => ({
+  loopPlayer: { setMidiSink: vi.fn() },
+}))
+
+vi.mock('./audioStore', () => ({
+  useAudioStore: () => ({}),
+}))
+
+vi.mock('./instrumentStore', () => ({
+  useInstrumentStore: () => ({
+    get isDrums() {
+      return sound.isDrums
+    },
+    getDrumKit: () => ({ trigger: sound.trigger }),
+    getMelodicInstrument: () => ({ noteOn: sound.noteOn, noteOff: sound.noteOff }),
+  }),
+}))
+
+vi.mock('./looperStore', () => ({
+  useLooperStore: () => ({ recordNoteOn: sound.recordNoteOn, recordNoteOff: sound.recordNoteOff }),
+}))
+
+const NOTE_ON = 0x90
+const NOTE_OFF = 0x80
+const CONTROL_CHANGE = 0xb0
+const DRUM_CHANNEL = 9
+
+describe('midiStore with a mocked MIDIAccess', () => {
+  beforeEach(() => {
+    const stored = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+    })
+    setActivePinia(createPinia())
+    fakeMidi.plug('keys', 'Keyboard')
+    fakeMidi.plug('pads', 'Drum Pads')
+  })
+
+  afterEach(() => {
+    useMidiStore().disable()
+    fakeMidi.reset()
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+    sound.isDrums = false
+  })
+
+  it('lists the inputs and follows hot-plugging', async () => {
+    const store = useMidiStore()
+    await store.enable()
+
+    expect(store.enabled).toBe(true)
+    expect(store.devices.map((d) => d.name)).toEqual(['Keyboard', 'Drum Pads'])
+
+    fakeMidi.plug('usb', 'USB Synth')
+    expect(store.devices.map((d) => d.id)).toEqual(['keys', 'pads', 'usb'])
+
+    fakeMidi.unplug('pads')
+    expect(store.devices.find((d) => d.id === 'pads')?.connected).toBe(false)
+  })
+
+  it('listens to every input until one is selected', async () => {
+    const store = useMidiStore()
+    await store.enable()
+
+    fakeMidi.inputs.get('keys')!.send([NOTE_ON, 60, 127])
+    fakeMidi.inputs.get('pads')!.send([NOTE_ON, 62, 127])
+    expect(sound.noteOn).toHaveBeenCalledTimes(2)
+
+    store.selectInput('keys')
+    fakeMidi.inputs.get('pads')!.send([NOTE_ON, 64, 127])
+    fakeMidi.inputs.get('keys')!.send([NOTE_ON, 65, 127])
+    expect(sound.noteOn).toHaveBeenCalledTimes(3)
+    expect(sound.noteOn).toHaveBeenLastCalledWith('F4', 1)
+  })
+
+  it('routes note on and off to the instrument and the looper', async () => {
+    const store = useMidiStore()
+    await store.enable()
+    const keys = fakeMidi.inputs.get('keys')!
+
+    keys.send([NOTE_ON, 60, 64])
+    expect(sound.noteOn).toHaveBeenCalledWith('C4', 64 / 127)
+    expect(sound.recordNoteOn).toHaveBeenCalledWith('C4', 64 / 127)
+
+    // Note-on with zero velocity is a note-off
+    keys.send([NOTE_ON, 60, 0])
+    expect(sound.noteOff).toHaveBeenCalledWith('C4')
+    expect(sound.recordNoteOff).toHaveBeenCalledWith('C4')
+
+    keys.send([NOTE_ON, 62, 100])
+    keys.send([NOTE_OFF, 62, 0])
+    expect(sound.recordNoteOff).toHaveBeenLastCalledWith('D4')
+  })
+
+  it('holds note-offs while the sustain pedal is down', async () => {
+    const store = useMidiStore()
+    await store.enable()
+    const keys = fakeMidi.inputs.get('keys')!
+
+    keys.send([CONTROL_CHANGE, 64, 127])
+    keys.send([NOTE_ON, 60, 100])
+    keys.send([NOTE_OFF, 60, 0])
+    keys.send([NOTE_ON, 64, 100])
+    keys.send([NOTE_OFF, 64, 0])
+    expect(sound.noteOff).not.toHaveBeenCalled()
+
+    // Re-striking a held note ends it before the new one starts
+    keys.send([NOTE_ON, 60, 100])
+    expect(sound.noteOff).toHaveBeenCalledWith('C4')
+
+    keys.send([CONTROL_CHANGE, 64, 0])
+    expect(sound.noteOff).toHaveBeenCalledWith('E4')
+    expect(sound.noteOff).toHaveBeenCalledTimes(2)
+  })
+
+  it('plays drums from the drum map on channel 10', async () => {
+    const store = useMidiStore()
+    await store.enable()
+    const pads = fakeMidi.inputs.get('pads')!
+
+    pads.send([NOTE_ON | DRUM_CHANNEL, 36, 127])
+    expect(sound.trigger).toHaveBeenLastCalledWith('kick', undefined, 1)
+    expect(sound.recordNoteOn).toHaveBeenLastCalledWith('kick', 1)
+
+    // Drum note-offs are ignored
+    pads.send([NOTE_OFF | DRUM_CHANNEL, 36, 0])
+    expect(sound.recordNoteOff).not.toHaveBeenCalled()
+
+    // A remapped note wins over General MIDI
+    store.setDrumNote('snare', 60)
+    pads.send([NOTE_ON | DRUM_CHANNEL, 60, 127])
+    expect(sound.trigger).toHaveBeenLastCalledWith('snare', undefined, 1)
+
+    // Learning assigns the next note without recording it
+    store.learnDrumNote('clap')
+    pads.send([NOTE_ON | DRUM_CHANNEL, 70, 127])
+    expect(store.drumNoteMap.clap).toBe(70)
+    expect(sound.recordNoteOn).toHaveBeenCalledTimes(2)
+  })
+
+  it('uses the drum map on any channel while the drum kit is selected', async () => {
+    sound.isDrums = true
+    const store = useMidiStore()
+    await store.enable()
+
+    fakeMidi.inputs.get('keys')!.send([NOTE_ON, 38, 127])
+    expect(sound.trigger).toHaveBeenCalledWith('snare', undefined, 1)
+    expect(sound.noteOn).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,242 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { DrumSound } from '@/types'
+import midiInput, {
+  MidiInput,
+  type MidiInputDevice,
+  type MidiNoteMessage,
+  type MidiTransportMessage,
+} from '@/audio/midi/MidiInput'
+import midiOutput, { type MidiOutputDevice } from '@/audio/midi/MidiOutput'
+import midiClockOut, { MidiClockFollower } from '@/audio/midi/MidiClock'
+import { LayerMidiSender } from '@/audio/midi/LayerMidiSender'
+import { DRUM_CHANNEL } from '@/audio/midi/MidiLayerConverter'
+import { loopPlayer } from '@/audio/looper/LoopPlayer'
+import { GM_DRUM_NOTES, gmNoteToDrum, midiToNote } from '@/utils/notes'
+import { useAudioStore } from './audioStore'
+import { useInstrumentStore } from './instrumentStore'
+import { useLooperStore } from './looperStore'
+
+const DRUM_MAP_STORAGE_KEY = 'makeloops_midi_drum_map'
+
+// Send makes this the clock master; follow slaves tempo and transport to the selected input
+export type MidiClockMode = 'off' | 'send' | 'follow'
+
+// Ignore tempo wobble smaller than this while following
+const FOLLOW_BPM_TOLERANCE = 0.2
+
+interface ActiveNote {
+  note: string
+  release: (note: string) => void
+}
+
+function loadDrumNoteMap(): Record<DrumSound, number> {
+  try {
+    const stored = localStorage.getItem(DRUM_MAP_STORAGE_KEY)
+    if (stored) {
+      return { ...GM_DRUM_NOTES, ...JSON.parse(stored) }
+    }
+  } catch (e) {
+    console.error('Failed to load MIDI drum map:', e)
+  }
+  return { ...GM_DRUM_NOTES }
+}
+
+export const useMidiStore = defineStore('midi', () => {
+  const audioStore = useAudioStore()
+  const instrumentStore = useInstrumentStore()
+  const looperStore = useLooperStore()
+
+  const supported = ref(MidiInput.isSupported())
+  const enabled = ref(false)
+  const error = ref<string | null>(null)
+  const devices = ref<MidiInputDevice[]>([])
+  const selectedInputId = ref<string | null>(null) // null listens to every input
+  const drumNoteMap = ref<Record<DrumSound, number>>(loadDrumNoteMap())
+  const learningSound = ref<DrumSound | null>(null)
+  const outputs = ref<MidiOutputDevice[]>([])
+  const clockMode = ref<MidiClockMode>('off')
+  const clockOutputId = ref<string | null>(null)
+
+  const clockFollower = new MidiClockFollower()
+  const layerMidiSender = new LayerMidiSender(midiOutput)
+
+  // Sounding melodic notes by channel and number, so note-offs release what
+  // their note-on played even if the instrument changed in between
+  const activeNotes: Map<string, ActiveNote> = new Map()
+
+  midiInput.setHandlers({
+    onNoteOn: handleNoteOn,
+    onNoteOff: handleNoteOff,
+    onClock: handleClock,
+    onTransport: handleTransport,
+    onDevicesChanged: (list) => {
+      devices.value = list
+    },
+  })
+  midiOutput.setOnDevicesChanged((list) => {
+    outputs.value = list
+  })
+
+  async function enable() {
+    if (!supported.value) return
+    try {
+      devices.value = await midiInput.enable()
+      outputs.value = await midiOutput.enable()
+      midiInput.selectInput(selectedInputId.value)
+      loopPlayer.setMidiSink(layerMidiSender)
+      enabled.value = true
+      error.value = null
+    } catch (e) {
+      console.error('Failed to enable MIDI:', e)
+      error.value = 'MIDI access was denied'
+    }
+  }
+
+  function disable() {
+    setClockMode('off')
+    loopPlayer.setMidiSink(null)
+    midiInput.disable()
+    midiOutput.disable()
+    enabled.value = false
+    devices.value = []
+    outputs.value = []
+    learningSound.value = null
+  }
+
+  function selectInput(id: string | null) {
+    selectedInputId.value = id
+    midiInput.selectInput(id)
+  }
+
+  function setClockMode(mode: MidiClockMode) {
+    clockMode.value = mode
+    clockFollower.reset()
+    applyClockOut()
+  }
+
+  function setClockOutput(id: string | null) {
+    clockOutputId.value = id
+    applyClockOut()
+  }
+
+  function applyClockOut() {
+    if (clockMode.value === 'send' && clockOutputId.value) {
+      midiClockOut.start(clockOutputId.value)
+    } else {
+      midiClockOut.stop()
+    }
+  }
+
+  function handleClock(timestamp: number) {
+    if (clockMode.value !== 'follow') return
+    const bpm = clockFollower.clock(timestamp)
+    if (bpm === null) return
+    const clamped = Math.min(300, Math.max(40, bpm))
+    if (Math.abs(clamped - audioStore.bpm) >= FOLLOW_BPM_TOLERANCE) {
+      audioStore.setBpm(clamped)
+    }
+  }
+
+  // The transport has no resume point, so Continue starts playback like Start
+  function handleTransport(message: MidiTransportMessage) {
+    if (clockMode.value !== 'follow') return
+    if (message === 'stop') {
+      if (looperStore.isRecording) looperStore.stopRecording()
+      audioStore.stop()
+    } else if (audioStore.isStopped) {
+      audioStore.play()
+    }
+  }
+
+  // User mapping first, then General MIDI (which also covers notes like the
+  // second kick or ride cymbal that have no sound of their own)
+  function drumForNote(note: number): DrumSound | null {
+    const sounds = Object.keys(drumNoteMap.value) as DrumSound[]
+    return sounds.find((sound) => drumNoteMap.value[sound] === note) ?? gmNoteToDrum(note)
+  }
+
+  function setDrumNote(sound: DrumSound, note: number) {
+    if (!Number.isInteger(note) || note < 0 || note > 127) return
+    drumNoteMap.value = { ...drumNoteMap.value, [sound]: note }
+    persistDrumNoteMap()
+  }
+
+  function resetDrumNoteMap() {
+    drumNoteMap.value = { ...GM_DRUM_NOTES }
+    persistDrumNoteMap()
+  }
+
+  // The next incoming note is assigned to this sound
+  function learnDrumNote(sound: DrumSound | null) {
+    learningSound.value = sound
+  }
+
+  function persistDrumNoteMap() {
+    try {
+      localStorage.setItem(DRUM_MAP_STORAGE_KEY, JSON.stringify(drumNoteMap.value))
+    } catch (e) {
+      console.error('Failed to save MIDI drum map:', e)
+    }
+  }
+
+  function handleNoteOn(message: MidiNoteMessage) {
+    // Learning only assigns and auditions the sound, nothing is recorded
+    if (learningSound.value) {
+      const sound = learningSound.value
+      setDrumNote(sound, message.note)
+      learningSound.value = null
+      instrumentStore.getDrumKit().trigger(sound, undefined, message.velocity)
+      return
+    }
+
+    const isDrumInput = message.channel === DRUM_CHANNEL || instrumentStore.isDrums
+
+    // Drum hits are one-shots, so their note-offs are ignored
+    if (isDrumInput) {
+      const sound = drumForNote(message.note)
+      if (!sound) return
+      instrumentStore.getDrumKit().trigger(sound, undefined, message.velocity)
+      looperStore.recordNoteOn(sound, message.velocity)
+      return
+    }
+
+    const note = midiToNote(message.note)
+    const synth = instrumentStore.getMelodicInstrument()
+    synth.noteOn(note, message.velocity)
+    activeNotes.set(`${message.channel}:${message.note}`, { note, release: (n) => synth.noteOff(n) })
+    looperStore.recordNoteOn(note, message.velocity)
+  }
+
+  function handleNoteOff(message: MidiNoteMessage) {
+    const key = `${message.channel}:${message.note}`
+    const active = activeNotes.get(key)
+    if (!active) return
+    activeNotes.delete(key)
+
+    active.release(active.note)
+    looperStore.recordNoteOff(active.note)
+  }
+
+  return {
+    supported,
+    enabled,
+    error,
+    devices,
+    selectedInputId,
+    drumNoteMap,
+    learningSound,
+    outputs,
+    clockMode,
+    clockOutputId,
+    enable,
+    disable,
+    selectInput,
+    setClockMode,
+    setClockOutput,
+    drumForNote,
+    setDrumNote,
+    resetDrumNoteMap,
+    learnDrumNote,
+  }
+})
@@ -1,6 +1,7 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { LoopLayer, GridPattern, GridMode, ScaleName, RootNote, InstrumentType } from '@/types'
+import clipStorage from '@/audio/looper/ClipStorage'
+import type { ArrangementState, AudioClip, AuxBusSettings, LoopLayer, MasterSettings, GridPattern, GridMode, ScaleName, RootNote, InstrumentType } from '@/types'
 
 export interface GridState {
   mode: GridMode
@@ -20,6 +21,9 @@ export interface SavedSession {
   bpm: number
   layers: LoopLayer[]
   grid: GridState | null
+  master?: MasterSettings // absent in sessions saved before master processing
+  auxBuses?: AuxBusSettings[]
+  arrangement?: ArrangementState
 }
 
 const STORAGE_KEY = 'makeloops_sessions'
@@ -29,6 +33,24 @@ function generateSessionId(): string {
   return `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
+function sessionClips(list: SavedSession[]): AudioClip[] {
+  return list.flatMap((session) => session.layers.flatMap((layer) => (layer.clip ? [layer.clip] : [])))
+}
+
+// Clip audio already in IndexedDB is left out; anything else stays inline so it is never lost
+function forLocalStorage(session: SavedSession): SavedSession {
+  return {
+    ...session,
+    layers: session.layers.map((layer) =>
+      layer.clip && clipStorage.isStored(layer.clip.id) ? { ...layer, clip: { ...layer.clip, data: '' } } : layer
+    ),
+  }
+}
+
+function isQuotaError(e: unknown): boolean {
+  return e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
+
 export const useSessionStore = defineStore('session', () => {
   const sessions = ref<SavedSession[]>([])
   const currentSessionId = ref<string | null>(null)
@@ -53,31 +75,77 @@ export const useSessionStore = defineStore('session', () => {
       console.error('Failed to load sessions:', e)
       sessions.value = []
     }
+
+    // Sessions saved before clip audio moved to IndexedDB carry it inline
+    const inline = sessionClips(sessions.value).filter((clip) => clip.data)
+    if (inline.length > 0) {
+      clipStorage
+        .save(inline)
+        .then(() => persistSessions())
+        .catch((e) => console.error('Failed to move clip audio out of localStorage:', e))
+    }
   }
 
-  // Persist sessions to localStorage
+  // Persist sessions to localStorage; throws when the browser refuses the write
   function persistSessions() {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions.value))
-      if (currentSessionId.value) {
-        localStorage.setItem(CURRENT_SESSION_KEY, currentSessionId.value)
-      } else {
-        localStorage.removeItem(CURRENT_SESSION_KEY)
-      }
-    } catch (e) {
-      console.error('Failed to save sessions:', e)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions.value.map(forLocalStorage)))
+    if (currentSessionId.value) {
+      localStorage.setItem(CURRENT_SESSION_KEY, currentSessionId.value)
+    } else {
+      localStorage.removeItem(CURRENT_SESSION_KEY)
     }
   }
 
-  // Save current state as a new session or overwrite existing
-  function saveSession(
+  function pruneClips() {
+    clipStorage
+      .prune(new Set(sessionClips(sessions.value).map((clip) => clip.id)))
+      .catch((e) => console.error('Failed to clean up clip audio:', e))
+  }
+
+  /**
+   * Save current state as a new session or overwrite existing. Clip audio goes
+   * to IndexedDB first; if the session still cannot be written, nothing changes
+   * and the promise rejects with a message for the user.
+   */
+  async function saveSession(
     name: string,
     bpm: number,
     layers: LoopLayer[],
     grid: GridState | null,
+    master: MasterSettings,
+    auxBuses: AuxBusSettings[],
+    arrangement: ArrangementState,
     saveAsNew: boolean = false
-  ): SavedSession {
+  ): Promise<SavedSession> {
     const now = Date.now()
+    const previous = {
+      sessions: [...sessions.value],
+      id: currentSessionId.value,
+      name: currentSessionName.value,
+    }
+    const commit = async (session: SavedSession) => {
+      try {
+        await clipStorage.save(sessionClips([session]))
+      } catch (e) {
+        // Without IndexedDB the audio stays inline, which may still fit
+        console.error('Failed to store clip audio:', e)
+      }
+      try {
+        persistSessions()
+      } catch (e) {
+        console.error('Failed to save sessions:', e)
+        sessions.value = previous.sessions
+        currentSessionId.value = previous.id
+        currentSessionName.value = previous.name
+        throw new Error(
+          isQuotaError(e)
+            ? 'Not enough browser storage to save this session. Delete older sessions or audio clips and try again.'
+            : 'Could not save this session in your browser.'
+        )
+      }
+      pruneClips()
+      return session
+    }
 
     // If we have a current session and not saving as new, update it
     if (currentSessionId.value && !saveAsNew) {
@@ -90,12 +158,14 @@ export const useSessionStore = defineStore('session', () => {
           bpm,
           layers: JSON.parse(JSON.stringify(layers)),
           grid: grid ? JSON.parse(JSON.stringify(grid)) : null,
+          master: JSON.parse(JSON.stringify(master)),
+          auxBuses: JSON.parse(JSON.stringify(auxBuses)),
+          arrangement: JSON.parse(JSON.stringify(arrangement)),
         }
         const index = sessions.value.indexOf(existingSession)
         sessions.value[index] = updatedSession
         currentSessionName.value = name
-        persistSessions()
-        return updatedSession
+        return commit(updatedSession)
       }
     }
 
@@ -107,25 +177,38 @@ export const useSessionStore = defineStore('session', () => {
       bpm,
       layers: JSON.parse(JSON.stringify(layers)),
       grid: grid ? JSON.parse(JSON.stringify(grid)) : null,
+      master: JSON.parse(JSON.stringify(master)),
+      auxBuses: JSON.parse(JSON.stringify(auxBuses)),
+      arrangement: JSON.parse(JSON.stringify(arrangement)),
     }
 
     sessions.value.unshift(session) // Add to beginning (most recent first)
     currentSessionId.value = session.id
     currentSessionName.value = session.name
-    persistSessions()
-    return session
+    return commit(session)
   }
 
-  // Load a session
-  function loadSession(sessionId: string): SavedSession | null {
+  // Load a session, reading its clip audio back from IndexedDB
+  async function loadSession(sessionId: string): Promise<SavedSession | null> {
     const session = sessions.value.find(s => s.id === sessionId)
-    if (session) {
-      currentSessionId.value = session.id
-      currentSessionName.value = session.name
-      persistSessions()
-      return session
+    if (!session) return null
+    currentSessionId.value = session.id
+    currentSessionName.value = session.name
+    try {
+      localStorage.setItem(CURRENT_SESSION_KEY, session.id)
+    } catch (e) {
+      console.error('Failed to save sessions:', e)
     }
-    return null
+
+    for (const layer of session.layers) {
+      if (!layer.clip || layer.clip.data) continue
+      try {
+        layer.clip.data = (await clipStorage.load(layer.clip.id)) ?? ''
+      } catch (e) {
+        console.error(`Failed to read clip audio for ${layer.name}:`, e)
+      }
+    }
+    return session
   }
 
   // Delete a session
@@ -137,7 +220,12 @@ export const useSessionStore = defineStore('session', () => {
         currentSessionId.value = null
         currentSessionName.value = null
       }
-      persistSessions()
+      try {
+        persistSessions()
+      } catch (e) {
+        console.error('Failed to save sessions:', e)
+      }
+      pruneClips()
     }
   }
 
@@ -5,6 +5,24 @@ export interface MidiEvent {
   time: number // Transport-relative ticks
 }
 
+// A note-on paired with its note-off, as edited in the piano roll
+export interface LoopNote {
+  note: string
+  time: number // ticks, same timeline as the layer's events
+  duration: number // ticks
+  velocity: number
+}
+
+// Quick variations of a recorded layer, previewed before they are applied
+export type LayerTransform =
+  | { type: 'transpose'; semitones: number }
+  | { type: 'transpose-degrees'; degrees: number; root: RootNote; scale: ScaleName }
+  | { type: 'velocity'; scale: number; compress: number } // scale as a factor, compress 0-1 towards the average
+  | { type: 'reverse' }
+  | { type: 'speed'; factor: 2 | 0.5 }
+  | { type: 'shift'; ticks: number } // notes pushed past the loop end wrap to the start
+  | { type: 'humanize'; timing: number; velocity: number; seed: number } // timing in ticks, velocity 0-1
+
 export interface LoopLayer {
   id: string
   name: string
@@ -15,9 +33,108 @@ export interface LoopLayer {
   startPadding: number // ticks of silence added at start (can shrink this much from start)
   endPadding: number // ticks of silence added at end (can shrink this much from end)
   instrumentId: InstrumentType
-  volume: number
+  volume: number // channel fader, dB
+  pan: number // -1 (left) to 1 (right)
   muted: boolean
   solo: boolean
+  originalEvents?: MidiEvent[] // timing before quantization, kept so it can be undone
+  midiOutput?: LayerMidiOutput // also play the layer on an external MIDI device
+  clip?: AudioClip // audio clip layers play this instead of events
+  effects?: LayerEffect[] // insert chain, processed in order before the fader
+  sends?: LayerSend[] // feeds to the shared aux buses
+  automation?: AutomationLane[] // repeats every loop cycle
+}
+
+export type EffectType = 'reverb' | 'delay' | 'filter' | 'distortion' | 'bitcrusher' | 'chorus'
+
+export interface LayerEffect {
+  id: string
+  type: EffectType
+  bypassed: boolean
+  params: Record<string, number> // keys and ranges are defined per type in EffectChain
+}
+
+// A shared send/return bus running one effect fully wet
+export interface AuxBusSettings {
+  id: string
+  name: string
+  effect: EffectType
+  params: Record<string, number> // as for LayerEffect, without the mix
+  returnLevel: number // dB
+}
+
+export interface LayerSend {
+  busId: string
+  level: number // 0-1
+  preFader: boolean // tap before the fader and pan, so the send ignores them
+}
+
+export type AutomationTarget =
+  | { type: 'volume' } // dB, overrides the fader while the lane exists
+  | { type: 'pan' }
+  | { type: 'effect'; effectId: string; param: string }
+
+export interface AutomationPoint {
+  time: number // ticks from the start of the cropped loop
+  value: number // in the target's own units
+}
+
+// Breakpoints joined by linear ramps; values hold before the first and after the last
+export interface AutomationLane {
+  id: string
+  target: AutomationTarget
+  points: AutomationPoint[] // sorted by time
+}
+
+// A named set of layers that plays for a number of bars within an arrangement
+export interface ArrangementSection {
+  id: string
+  name: string
+  layerIds: string[]
+  bars: number
+}
+
+// Saved with the session
+export interface ArrangementState {
+  enabled: boolean
+  sections: ArrangementSection[] // in play order
+}
+
+// A span of transport ticks in which a layer plays, its loop restarting at `start`
+export interface PlaybackWindow {
+  start: number
+  end: number
+}
+
+// When a clip launcher click takes effect; 'none' switches immediately
+export type LaunchQuantum = 'none' | '4n' | '2n' | '1m' | '2m' | '4m'
+
+// A row of the clip launcher: the layers it plays, stopping the rest
+export interface LauncherScene {
+  id: string
+  name: string
+  layerIds: string[]
+}
+
+// Imported audio, kept compressed so sessions stay small
+export interface AudioClip {
+  id: string
+  format: 'opus'
+  data: string // base64 Ogg Opus
+  seconds: number // source length; audio is not stretched when the tempo changes
+  start: number // layer ticks where the audio begins (moves when extending from the start)
+}
+
+export interface LayerMidiOutput {
+  outputId: string
+  channel: number // zero-based
+}
+
+// Master bus processing, saved with each session
+export interface MasterSettings {
+  eq: { low: number; mid: number; high: number } // dB
+  compressor: { enabled: boolean; threshold: number; ratio: number; attack: number; release: number; makeup: number }
+  limiter: { enabled: boolean; ceiling: number } // dBFS
 }
 
 export type InstrumentType = 'drums' | 'piano' | 'synth' | 'pluck' | 'fm' | 'am' | 'membrane'
@@ -44,6 +161,34 @@ export interface NoteMap {
 
 export type TransportState = 'stopped' | 'playing' | 'recording'
 
+// Recording length in bars, or 'free' to set the length when recording stops
+export type RecordLength = 1 | 2 | 4 | 8 | 'free'
+
+// Bars of metronome before a take starts
+export type CountInBars = 0 | 1 | 2
+
+// What happens to notes played during the count-in
+export type CountInMode = 'drop' | 'pickup'
+
+// Overdubbing into an armed layer: add to its notes, or replace notes in the played range
+export type OverdubMode = 'add' | 'replace'
+
+// Punch window on a layer, in ticks from its crop start (end exclusive)
+export interface PunchRange {
+  start: number
+  end: number
+}
+
+// Quantize grid: straight or triplet note values
+export type QuantizeGrid = '4n' | '8n' | '16n' | '32n' | '4t' | '8t' | '16t'
+
+export interface QuantizeSettings {
+  grid: QuantizeGrid
+  strength: number // 0-1, how far notes move toward the grid
+  swing: number // 0-1, delays every other grid step (1 = triplet shuffle)
+  quantizeEnds: boolean // snap note-offs too, instead of keeping note lengths
+}
+
 // Grid Sequencer Types
 export type ScaleName =
   | 'major'
@@ -0,0 +1,31 @@
+interface LayerGroup {
+  id: string
+  layerIds: string[]
+}
+
+/**
+ * Drop a layer from every group (arrangement section, launcher scene) that
+ * lists it. The returned function puts it back in the same places, so
+ * undoing a layer removal restores the groups as well.
+ */
+export function detachLayer(groups: () => LayerGroup[], layerId: string): () => void {
+  const memberships = groups()
+    .filter((group) => group.layerIds.includes(layerId))
+    .map((group) => ({ id: group.id, index: group.layerIds.indexOf(layerId) }))
+  for (const group of groups()) {
+    if (group.layerIds.includes(layerId)) {
+      group.layerIds = group.layerIds.filter((id) => id !== layerId)
+    }
+  }
+
+  return () => {
+    for (const { id, index } of memberships) {
+      // Groups are looked up again, since they may have been edited or reloaded since
+      const group = groups().find((g) => g.id === id)
+      if (!group || group.layerIds.includes(layerId)) continue
+      const layerIds = [...group.layerIds]
+      layerIds.splice(Math.min(index, layerIds.length), 0, layerId)
+      group.layerIds = layerIds
+    }
+  }
+}
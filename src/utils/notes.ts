@@ -0,0 +1,71 @@
+import type { DrumSound } from '@/types'
+import { ROOT_NOTES } from './scales'
+
+const PITCH_CLASSES: Record<string, number> = {
+  'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3,
+  'E': 4, 'F': 5, 'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8,
+  'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11,
+}
+
+/**
+ * Convert a note name (e.g., "C4", "D#5", "Bb-1") to a MIDI note number (C4 = 60).
+ * Returns null for anything that is not a pitched note name.
+ */
+export function noteToMidi(note: string): number | null {
+  const match = note.match(/^([A-Ga-g][#b]?)(-?\d+)$/)
+  if (!match) return null
+
+  const [, noteName, octaveStr] = match
+  const pitchClass = PITCH_CLASSES[noteName!.charAt(0).toUpperCase() + noteName!.slice(1)]
+  if (pitchClass === undefined) return null
+
+  return (parseInt(octaveStr!, 10) + 1) * 12 + pitchClass
+}
+
+/**
+ * Convert a MIDI note number to a sharp-based note name (60 = "C4")
+ */
+export function midiToNote(midi: number): string {
+  const octave = Math.floor(midi / 12) - 1
+  return `${ROOT_NOTES[((midi % 12) + 12) % 12]}${octave}`
+}
+
+// General MIDI percussion key map (channel 10)
+export const GM_DRUM_NOTES: Record<DrumSound, number> = {
+  kick: 36, // Bass Drum 1
+  rim: 37, // Side Stick
+  snare: 38, // Acoustic Snare
+  clap: 39, // Hand Clap
+  'hihat-closed': 42, // Closed Hi-Hat
+  'tom-low': 43, // High Floor Tom
+  'hihat-open': 46, // Open Hi-Hat
+  'tom-mid': 47, // Low-Mid Tom
+  crash: 49, // Crash Cymbal 1
+  'tom-high': 50, // High Tom
+}
+
+// Other GM percussion keys folded onto the closest kit piece
+const GM_DRUM_FALLBACKS: Record<number, DrumSound> = {
+  35: 'kick', // Acoustic Bass Drum
+  40: 'snare', // Electric Snare
+  41: 'tom-low', // Low Floor Tom
+  44: 'hihat-closed', // Pedal Hi-Hat
+  45: 'tom-mid', // Low Tom
+  48: 'tom-high', // Hi-Mid Tom
+  51: 'hihat-open', // Ride Cymbal 1
+  52: 'crash', // Chinese Cymbal
+  53: 'hihat-open', // Ride Bell
+  54: 'rim', // Tambourine
+  55: 'crash', // Splash Cymbal
+  56: 'rim', // Cowbell
+  57: 'crash', // Crash Cymbal 2
+  59: 'hihat-open', // Ride Cymbal 2
+}
+
+/**
+ * Map a GM percussion note number to a kit piece, or null if nothing is close
+ */
+export function gmNoteToDrum(note: number): DrumSound | null {
+  const exact = (Object.keys(GM_DRUM_NOTES) as DrumSound[]).find((sound) => GM_DRUM_NOTES[sound] === note)
+  return exact ?? GM_DRUM_FALLBACKS[note] ?? null
+}